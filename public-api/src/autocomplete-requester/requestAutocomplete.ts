@@ -1,7 +1,11 @@
 // src/public-api/autocomplete-requester/requestAutocomplete.ts
 import { modifyQueryForAutocomplete } from '../utils/searchUtils';
-import { fetchAutocompleteResults } from '../utils/autocompleteUtils';
-import type { AppEnv, SearchResult } from '../utils/searchUtils.types';
+import { fetchAutocompleteResults, normalizeAutocompleteResponse } from '../utils/autocompleteUtils';
+import type { AppEnv } from '../utils/searchUtils.types';
+import type { AutocompleteResponse, GbiAutocompleteResponse } from '../utils/autocompleteResponse.types';
+import { createGbiTransport } from '../utils/gbiTransport';
+import type { GbiTransport } from '../utils/gbiTransport';
+import { createBeaconId } from '../beacon-tracker/createBeaconTracker';
 
 /**
  * Options for the autocomplete request.
@@ -27,6 +31,24 @@ export interface RequestAutocompleteOptions {
    * Optional dataset parameter
    */
   dataset?: string;
+  /**
+   * Optional AbortSignal to cancel the request.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * The result of `requestAutocomplete`.
+ */
+export interface RequestAutocompleteResponse {
+  /**
+   * The normalized suggestions (see `AutocompleteResponse`).
+   */
+  autocomplete: AutocompleteResponse;
+  /**
+   * The unmodified GBI Autocomplete API response, which earlier releases returned as `autocomplete`.
+   */
+  rawResponse: GbiAutocompleteResponse;
 }
 
 /**
@@ -35,7 +57,9 @@ export interface RequestAutocompleteOptions {
  * @param shopTenant - The shop tenant identifier.
  * @param appEnv - The application environment.
  * @param options - Options for the autocomplete request.
- * @returns A promise that resolves to the GBI Search response.
+ * @param transport - Optional transport overriding endpoint construction and fetch (see `createGbiClient`).
+ * @returns A promise that resolves to the normalized autocomplete response (query and navigation suggestions),
+ * carrying an `autocompleteId` for `BeaconTracker.trackAutocompleteSelection`, and the raw API response.
  * @throws Throws an error if the request fails.
  *
  * @example
@@ -48,28 +72,30 @@ export interface RequestAutocompleteOptions {
 export async function requestAutocomplete(
   shopTenant: string,
   appEnv: AppEnv,
-  options: RequestAutocompleteOptions
-): Promise<{autocomplete: SearchResult}> {
+  options: RequestAutocompleteOptions,
+  transport: GbiTransport = createGbiTransport({ shopTenant, appEnv })
+): Promise<RequestAutocompleteResponse> {
   try {
     // Modify the query for autocomplete.
     const { modifiedQuery } = modifyQueryForAutocomplete(options.query);
 
     // Fetch autocomplete results using the dedicated autocomplete endpoint
-    const autocompleteResults = await fetchAutocompleteResults(shopTenant, appEnv, {
+    const autocompleteResults = await fetchAutocompleteResults(transport, {
       query: modifiedQuery,
       collection: options.collection,
       area: options.area,
       searchItems: options.searchItems,
-      dataset: options.dataset
+      dataset: options.dataset,
+      signal: options.signal
     });
 
-    // Set the global autocomplete ID for beaconing.
-    (globalThis as any).GBI_AUTOCOMPLETE_ID = options.query; // or some other unique ID
-
-    // Return the results.
-    return { autocomplete: autocompleteResults};
+    // Return the normalized results, with an id to report suggestion selections under.
+    const autocomplete = normalizeAutocompleteResponse(autocompleteResults, modifiedQuery);
+    return { autocomplete: { ...autocomplete, autocompleteId: createBeaconId() }, rawResponse: autocompleteResults };
   } catch (error) {
-    console.error("Error in requestAutocomplete:", error);
+    if (!options.signal?.aborted) {
+      console.error("Error in requestAutocomplete:", error);
+    }
     throw error; 
   }
 }
@@ -1,9 +1,15 @@
 import { modifyQueryForAutocomplete } from '../utils/searchUtils';
-import { fetchAutocompleteResults } from '../utils/autocompleteUtils';
-import type { AppEnv, SearchResult, ProductDetail } from '../utils/searchUtils.types';
+import { fetchAutocompleteResults, normalizeAutocompleteResponse } from '../utils/autocompleteUtils';
+import type { AppEnv } from '../utils/searchUtils.types';
 import { requestSearch } from '../search-requester/requestSearch';
 import type { RequestSearchOptions, RequestSearchResponse } from '../search-requester/requestSearch';
 import type { ShopifyConfig } from '../search-requester/fetchStorefrontProducts';
+import { createGbiTransport } from '../utils/gbiTransport';
+import type { GbiTransport } from '../utils/gbiTransport';
+import type { MissingProductPolicy } from '../utils/searchUtils.types';
+import type { ProductEnricher } from '../utils/productEnrichers';
+import { createBeaconId } from '../beacon-tracker/createBeaconTracker';
+import type { RequestAutocompleteResponse } from './requestAutocomplete';
 
 /**
  * Options for the autocomplete request.
@@ -38,11 +44,30 @@ export type RequestAutocompleteSearchOptions = {
    */
   mergeShopifyData?: boolean;
   shopifyConfig?: ShopifyConfig;
+  /**
+   * Optional enrichment strategy for the product suggestions (see `ProductEnricher`).
+   */
+  enricher?: ProductEnricher;
+  /**
+   * Optional policy for products the enricher has no data for. Defaults to `drop`.
+   */
+  missingProductPolicy?: MissingProductPolicy;
   /**
    * If true, the first autocomplete suggestion will be used as the query for search results.
    * If false or not provided, the original query will be used.
    */
   useFirstSuggestion?: boolean;
+  /**
+   * Optional AbortSignal to cancel both the autocomplete and the search request.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * The result of `requestAutocompleteWithSearch`: the autocomplete response and the accompanying search.
+ */
+export interface RequestAutocompleteSearchResponse extends RequestAutocompleteResponse {
+  search: RequestSearchResponse;
 }
 
 /**
@@ -51,7 +76,9 @@ export type RequestAutocompleteSearchOptions = {
  * @param shopTenant - The shop tenant identifier.
  * @param appEnv - The application environment.
  * @param options - Options for the autocomplete request.
- * @returns A promise that resolves to the GBI Search response.
+ * @param transport - Optional transport overriding endpoint construction and fetch (see `createGbiClient`).
+ * @returns A promise that resolves to the normalized autocomplete response, with the search products as
+ * product suggestions, the raw autocomplete API response and the search response.
  * @throws Throws an error if the request fails.
  *
  * @example
@@ -65,29 +92,30 @@ export type RequestAutocompleteSearchOptions = {
 export async function requestAutocompleteWithSearch(
   shopTenant: string,
   appEnv: AppEnv,
-  options: RequestAutocompleteSearchOptions
-): Promise<{ autocomplete: SearchResult, search: RequestSearchResponse }> {
+  options: RequestAutocompleteSearchOptions,
+  transport: GbiTransport = createGbiTransport({ shopTenant, appEnv })
+): Promise<RequestAutocompleteSearchResponse> {
   try {
     const { modifiedQuery } = modifyQueryForAutocomplete(options.query);
 
     // Fetch autocomplete results using the dedicated autocomplete endpoint
-    const autocompleteResults = await fetchAutocompleteResults(shopTenant, appEnv, {
+    const autocompleteResults = await fetchAutocompleteResults(transport, {
       query: modifiedQuery,
       collection: options.collection,
       area: options.area,
       searchItems: options.searchItems,
-      dataset: options.dataset
+      dataset: options.dataset,
+      signal: options.signal
     });
 
     // Determine the search query to use
     let searchQuery = modifiedQuery;
     
-    // If useFirstSuggestion is enabled and there are autocomplete suggestions,
+    // If useFirstSuggestion is enabled and there are query suggestions,
     // use the first suggestion as the search query
-    if (options.useFirstSuggestion && 
-        autocompleteResults?.results?.length > 0 && 
-        autocompleteResults.results[0]?.term) {
-      searchQuery = autocompleteResults.results[0].term;
+    const firstSuggestion = normalizeAutocompleteResponse(autocompleteResults, modifiedQuery).querySuggestions[0];
+    if (options.useFirstSuggestion && firstSuggestion) {
+      searchQuery = firstSuggestion.term;
     }
 
     const searchOptions: RequestSearchOptions = {
@@ -95,15 +123,27 @@ export async function requestAutocompleteWithSearch(
       collection: options.collection,
       area: options.area,
       page: 1,
-      pageSize: options.pageSize || 5
+      pageSize: options.pageSize || 5,
+      enricher: options.enricher,
+      missingProductPolicy: options.missingProductPolicy,
+      // The product preview refreshes as the shopper types; only searches submitted from a suggestion are tracked.
+      track: false,
+      signal: options.signal
     };
 
-    const searchResults = await requestSearch(shopTenant, appEnv, searchOptions, options.mergeShopifyData ?? true, options.shopifyConfig ?? undefined);
+    const searchResults = await requestSearch(shopTenant, appEnv, searchOptions, options.mergeShopifyData ?? true, options.shopifyConfig ?? undefined, transport);
 
-    // Return the results.
-    return { autocomplete: autocompleteResults, search: searchResults };
+    // Return the results, exposing the search products as product suggestions.
+    const autocomplete = normalizeAutocompleteResponse(autocompleteResults, modifiedQuery, searchResults.mergedProducts);
+    return {
+      autocomplete: { ...autocomplete, autocompleteId: createBeaconId() },
+      rawResponse: autocompleteResults,
+      search: searchResults,
+    };
   } catch (error) {
-    console.error("Error in requestAutocomplete:", error);
+    if (!options.signal?.aborted) {
+      console.error("Error in requestAutocomplete:", error);
+    }
     throw error;
   }
 }
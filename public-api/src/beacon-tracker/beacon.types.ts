@@ -0,0 +1,137 @@
+import type { SearchBeaconType } from '../utils/searchUtils.types';
+
+/**
+ * The kinds of analytics events sent by the beacon tracker.
+ */
+export type BeaconEventType =
+  | 'search'
+  | 'autocompleteSelection'
+  | 'recommendationImpression'
+  | 'recommendationClick'
+  | 'productClick'
+  | 'addToCart';
+
+/**
+ * Ties a product event to the search or recommendations request that displayed the product.
+ * `position` is 1-based and counts across pages for search results.
+ */
+export type BeaconAttribution =
+  | { source: 'search'; searchId: string; position: number }
+  | { source: 'recommendation'; recsId: string; model: string; position: number };
+
+/**
+ * Fields shared by every beacon event.
+ */
+interface BeaconEventBase {
+  type: BeaconEventType;
+  /** Unique id of the event, usable to deduplicate deliveries. */
+  eventId: string;
+  /** ISO 8601 time the event was tracked at. */
+  timestamp: string;
+  shopTenant: string;
+  visitorId?: string;
+  /** The page the event happened on, when running in a browser. */
+  pageUrl?: string;
+}
+
+/**
+ * Search results were displayed.
+ */
+export interface SearchBeaconEvent extends BeaconEventBase {
+  type: 'search';
+  searchId: string;
+  /** The query sent to GBI, without the autocomplete prefix. */
+  query: string;
+  correctedQuery?: string;
+  /**
+   * How the search came about: `sayt` for queries submitted from autocomplete, `navigation` for collection pages
+   * browsed without a query, `dym` when GBI corrected the spelling, `search` for other queries.
+   */
+  searchBeaconType: SearchBeaconType;
+  page: number;
+  pageSize: number;
+  totalRecordCount: number;
+  /** Ids of the records on the page, in result order. */
+  productIds: string[];
+  refinements: string[];
+  collectionId?: string;
+}
+
+/**
+ * A shopper picked a suggestion from the autocomplete dropdown.
+ */
+export interface AutocompleteSelectionBeaconEvent extends BeaconEventBase {
+  type: 'autocompleteSelection';
+  /** Id of the autocomplete request the suggestion came from. */
+  autocompleteId?: string;
+  /** What the shopper had typed. */
+  query: string;
+  suggestion: string;
+  suggestionType: 'query' | 'navigation' | 'product';
+  /** 1-based position of the suggestion within its section. */
+  position: number;
+}
+
+/**
+ * Recommended products were displayed.
+ */
+export interface RecommendationImpressionBeaconEvent extends BeaconEventBase {
+  type: 'recommendationImpression';
+  recsId: string;
+  /** The recommendations model name. */
+  model: string;
+  productIds: string[];
+}
+
+/**
+ * A shopper clicked a recommended product.
+ */
+export interface RecommendationClickBeaconEvent extends BeaconEventBase {
+  type: 'recommendationClick';
+  recsId: string;
+  model: string;
+  productId: string;
+  position: number;
+}
+
+/**
+ * A shopper clicked a product, e.g. in the search results.
+ */
+export interface ProductClickBeaconEvent extends BeaconEventBase {
+  type: 'productClick';
+  productId: string;
+  /** The request that displayed the product, when the tracker saw it. */
+  attribution?: BeaconAttribution;
+}
+
+/**
+ * A product was added to the cart.
+ */
+export interface AddToCartBeaconEvent extends BeaconEventBase {
+  type: 'addToCart';
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  /** Unit price, as a decimal amount. */
+  price?: number;
+  currency?: string;
+  attribution?: BeaconAttribution;
+}
+
+export type BeaconEvent =
+  | SearchBeaconEvent
+  | AutocompleteSelectionBeaconEvent
+  | RecommendationImpressionBeaconEvent
+  | RecommendationClickBeaconEvent
+  | ProductClickBeaconEvent
+  | AddToCartBeaconEvent;
+
+/**
+ * Delivers batches of beacon events, e.g. to a collector endpoint or, in tests, to memory.
+ */
+export interface BeaconSink {
+  /**
+   * Sends a batch of events. Failures are logged by the tracker and the batch is dropped.
+   */
+  send(events: BeaconEvent[]): void | Promise<void>;
+}
@@ -0,0 +1,72 @@
+import type { BeaconEvent, BeaconSink } from './beacon.types';
+import type { FetchFn } from '../utils/gbiTransport';
+import { debugLog } from '../utils/debugLogger';
+
+/**
+ * A sink keeping beacon events in memory, for local testing.
+ */
+export interface MemoryBeaconSink extends BeaconSink {
+  /** Every event sent so far, in send order. */
+  readonly events: BeaconEvent[];
+  clear(): void;
+}
+
+/**
+ * Creates a sink posting each batch as `{ events: BeaconEvent[] }` JSON with `navigator.sendBeacon`, so batches sent
+ * while the page unloads are still delivered. Where `sendBeacon` is unavailable, refuses the batch or throws, it falls
+ * back to a `keepalive` fetch.
+ *
+ * The batches use the SDK's own event format (see `BeaconEvent`); GBI does not provide a collector for it, so point
+ * the sink at a collector that accepts it, or write a sink mapping the events to your analytics API instead.
+ *
+ * @param url - The collector endpoint.
+ * @param fetchFn - Optional fetch used by the fallback. Defaults to the global `fetch`.
+ * @returns The sink.
+ */
+export function createSendBeaconSink(url: string, fetchFn: FetchFn = (input, init) => fetch(input, init)): BeaconSink {
+  return {
+    async send(events) {
+      const body = JSON.stringify({ events });
+      const navigator = (globalThis as { navigator?: Navigator }).navigator;
+      try {
+        if (navigator?.sendBeacon?.(url, new Blob([body], { type: 'application/json' }))) {
+          return;
+        }
+        debugLog('Beacons', 'sendBeacon unavailable or refused the batch, falling back to fetch');
+      } catch (error) {
+        // Some browsers throw for an `application/json` Blob, which is not a CORS-safelisted type.
+        debugLog('Beacons', 'sendBeacon threw, falling back to fetch', error);
+      }
+      await fetchFn(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: true,
+      });
+    },
+  };
+}
+
+/**
+ * Creates a sink that keeps events in memory instead of sending them.
+ *
+ * @returns The sink.
+ *
+ * @example
+ * const sink = createMemoryBeaconSink();
+ * const beaconTracker = createBeaconTracker({ shopTenant: "shop123", sink, maxBatchSize: 1 });
+ * // ...exercise the storefront, then:
+ * expect(sink.events.map(event => event.type)).toEqual(["search", "productClick"]);
+ */
+export function createMemoryBeaconSink(): MemoryBeaconSink {
+  const events: BeaconEvent[] = [];
+  return {
+    events,
+    send(batch) {
+      events.push(...batch);
+    },
+    clear() {
+      events.length = 0;
+    },
+  };
+}
@@ -0,0 +1,310 @@
+import type {
+  AddToCartBeaconEvent,
+  BeaconAttribution,
+  BeaconEvent,
+  BeaconSink,
+  SearchBeaconEvent,
+} from './beacon.types';
+import { createSendBeaconSink } from './beaconSinks';
+import type { AutocompleteResponse, AutocompleteSuggestion } from '../utils/autocompleteResponse.types';
+import type { RequestRecsResponse } from '../recommendations-requester/requestRecommendations';
+import type { ConsentProvider } from '../utils/trackingConsent';
+import { debugLog } from '../utils/debugLogger';
+
+/**
+ * Where a beacon tracker delivers its events: an `endpoint` receiving the SDK's `{ events }` batches (see
+ * `createSendBeaconSink`), or a `sink`, e.g. one mapping the events to an analytics API.
+ */
+export type BeaconDelivery =
+  | {
+      /**
+       * URL of a collector accepting the SDK's batches, e.g. a storefront-owned relay to the analytics backend.
+       */
+      endpoint: string;
+      sink?: never;
+    }
+  | {
+      /**
+       * Delivers the batches, e.g. `createMemoryBeaconSink()` for local testing.
+       */
+      sink: BeaconSink;
+      endpoint?: never;
+    };
+
+/**
+ * Tenant, batching and consent settings of a beacon tracker.
+ */
+export interface BeaconTrackerSettings {
+  shopTenant: string;
+  /**
+   * Number of queued events that triggers a send. Defaults to 20.
+   */
+  maxBatchSize?: number;
+  /**
+   * How long an event may wait in the queue, in milliseconds. Defaults to 5 seconds.
+   */
+  flushIntervalMs?: number;
+  /**
+   * Returns the id of the current visitor, added to every event.
+   */
+  getVisitorId?: () => string | undefined;
+  /**
+   * Shopper consent (see `createShopifyConsent`). Events are only sent with analytics consent and are
+   * discarded when it is refused. Without a provider, events are always sent.
+   */
+  consent?: ConsentProvider;
+  /**
+   * What happens to events tracked before the shopper decided: `queue` keeps them (up to 100) until consent
+   * is given, `drop` discards them. Defaults to `queue`.
+   */
+  pendingConsent?: 'queue' | 'drop';
+}
+
+/**
+ * Options for creating a beacon tracker. Either an `endpoint` or a `sink` is required (see {@link BeaconDelivery}).
+ */
+export type BeaconTrackerOptions = BeaconTrackerSettings & BeaconDelivery;
+
+// Fields the tracker fills in for every event.
+type CommonBeaconFields = 'eventId' | 'timestamp' | 'shopTenant' | 'visitorId' | 'pageUrl';
+
+/**
+ * An event as handed to the queue, before the common fields are added.
+ */
+type BeaconEventInput = {
+  [K in BeaconEvent['type']]: Omit<Extract<BeaconEvent, { type: K }>, CommonBeaconFields>;
+}[BeaconEvent['type']];
+
+/**
+ * The details of a search beacon; the tracker adds the common event fields.
+ */
+export type SearchBeaconDetails = Omit<SearchBeaconEvent, CommonBeaconFields | 'type'>;
+
+/**
+ * The details of an add-to-cart beacon. `quantity` defaults to 1.
+ */
+export type AddToCartDetails = Pick<AddToCartBeaconEvent, 'productId' | 'variantId' | 'price' | 'currency'> & {
+  quantity?: number;
+};
+
+/**
+ * Collects analytics events, ties product events to the request that displayed the product and sends
+ * them in batches. Tracking never throws; delivery failures are logged and the batch is dropped.
+ */
+export interface BeaconTracker {
+  /**
+   * Tracks displayed search results. Called by `requestSearch` for clients created with a `beaconTracker`.
+   */
+  trackSearch(details: SearchBeaconDetails): void;
+  /**
+   * Tracks the selection of an autocomplete suggestion.
+   *
+   * @param autocomplete - The response the suggestion belongs to.
+   * @param suggestion - The selected suggestion.
+   */
+  trackAutocompleteSelection(autocomplete: AutocompleteResponse, suggestion: AutocompleteSuggestion): void;
+  /**
+   * Tracks displayed recommendations.
+   */
+  trackRecommendationImpression(response: RequestRecsResponse): void;
+  /**
+   * Tracks a click on a recommended product.
+   */
+  trackRecommendationClick(response: RequestRecsResponse, productId: string): void;
+  /**
+   * Tracks a click on a product, attributed to the search or recommendations that last displayed it.
+   *
+   * @param productId - The GBI record id of the product (`allMeta.id`).
+   */
+  trackProductClick(productId: string): void;
+  /**
+   * Tracks an add-to-cart, attributed to the search or recommendations that last displayed the product.
+   */
+  trackAddToCart(details: AddToCartDetails): void;
+  /**
+   * Sends the queued events now.
+   */
+  flush(): Promise<void>;
+}
+
+const DEFAULT_MAX_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+// Products remembered for attribution; the oldest are forgotten first.
+const MAX_ATTRIBUTED_PRODUCTS = 500;
+// Events kept while consent is pending; the oldest are discarded first.
+const MAX_PENDING_EVENTS = 100;
+
+/**
+ * Generates a random id for a request or an event (a UUID where `crypto.randomUUID` is available).
+ *
+ * @returns The id.
+ */
+export function createBeaconId(): string {
+  const crypto = (globalThis as { crypto?: Crypto }).crypto;
+  if (crypto?.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * Creates a beacon tracker. Pass it to `createGbiClient({ beaconTracker })` so searches are tracked automatically,
+ * and call its methods for shopper interactions. Queued events are also sent when the page is hidden.
+ * With a `consent` provider, events wait for analytics consent and follow consent changes at runtime.
+ *
+ * @param options - The tenant, delivery and batching options (see {@link BeaconTrackerOptions}).
+ * @returns The tracker.
+ *
+ * @example
+ * const beaconTracker = createBeaconTracker({ shopTenant: "shop123", endpoint: "/apps/analytics/beacons" });
+ * const client = createGbiClient({ shopTenant: "shop123", beaconTracker });
+ * const { mergedProducts } = await client.requestSearch(searchOptions); // tracked as a `search` event
+ * productLink.onclick = () => beaconTracker.trackProductClick(product.allMeta.id);
+ */
+export function createBeaconTracker(options: BeaconTrackerOptions): BeaconTracker {
+  const { shopTenant } = options;
+  const sink = options.sink ?? createSendBeaconSink(options.endpoint);
+  const maxBatchSize = Math.max(1, options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE);
+  const flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+
+  let queue: BeaconEvent[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+  const attributions = new Map<string, BeaconAttribution>();
+
+  // True with analytics consent (or without a provider), false when refused, undefined while pending.
+  const analyticsAllowed = (): boolean | undefined =>
+    options.consent ? options.consent.getConsent()?.analytics : true;
+
+  const discardQueue = (reason: string): void => {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    if (queue.length) debugLog('Beacons', `Discarding ${queue.length} event(s): ${reason}`);
+    queue = [];
+  };
+
+  const flush = async (): Promise<void> => {
+    const allowed = analyticsAllowed();
+    if (allowed === false) {
+      discardQueue('analytics consent refused');
+      return;
+    }
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    // Held until the shopper decides; a consent change flushes them.
+    if (allowed === undefined || !queue.length) return;
+    const batch = queue;
+    queue = [];
+    debugLog('Beacons', `Sending ${batch.length} event(s)`, batch);
+    try {
+      await sink.send(batch);
+    } catch (error) {
+      console.warn('Could not send beacon events', error);
+    }
+  };
+
+  const enqueue = (event: BeaconEventInput): void => {
+    const allowed = analyticsAllowed();
+    if (allowed === false || (allowed === undefined && options.pendingConsent === 'drop')) {
+      debugLog('Beacons', `Dropping ${event.type} event without analytics consent`);
+      return;
+    }
+    queue.push({
+      ...event,
+      eventId: createBeaconId(),
+      timestamp: new Date().toISOString(),
+      shopTenant,
+      visitorId: options.getVisitorId?.(),
+      pageUrl: (globalThis as { location?: Location }).location?.href,
+    } as BeaconEvent);
+    if (allowed === undefined) {
+      if (queue.length > MAX_PENDING_EVENTS) queue.shift();
+    } else if (queue.length >= maxBatchSize) {
+      void flush();
+    } else if (flushTimer === undefined) {
+      flushTimer = setTimeout(() => void flush(), flushIntervalMs);
+    }
+  };
+
+  const attribute = (productId: string, attribution: BeaconAttribution): void => {
+    // Re-insert so the most recently displayed products are the last to be forgotten.
+    attributions.delete(productId);
+    attributions.set(productId, attribution);
+    if (attributions.size > MAX_ATTRIBUTED_PRODUCTS) {
+      attributions.delete(attributions.keys().next().value as string);
+    }
+  };
+
+  options.consent?.subscribe(consent => {
+    if (consent?.analytics) {
+      void flush();
+    } else if (consent) {
+      discardQueue('analytics consent refused');
+    }
+  });
+
+  // Deliver what is queued before the page goes away; `sendBeacon` survives the unload.
+  const document = (globalThis as { document?: Document }).document;
+  globalThis.addEventListener?.('pagehide', () => void flush());
+  document?.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') void flush();
+  });
+
+  return {
+    trackSearch(details) {
+      const offset = (details.page - 1) * details.pageSize;
+      details.productIds.forEach((productId, index) =>
+        attribute(productId, { source: 'search', searchId: details.searchId, position: offset + index + 1 })
+      );
+      enqueue({ type: 'search', ...details });
+    },
+    trackAutocompleteSelection(autocomplete, suggestion) {
+      const section =
+        suggestion.type === 'query'
+          ? autocomplete.querySuggestions
+          : suggestion.type === 'navigation'
+            ? autocomplete.navigationSuggestions
+            : autocomplete.productSuggestions;
+      enqueue({
+        type: 'autocompleteSelection',
+        autocompleteId: autocomplete.autocompleteId,
+        query: autocomplete.query,
+        suggestion: suggestion.type === 'product' ? suggestion.title : suggestion.term,
+        suggestionType: suggestion.type,
+        position: (section as AutocompleteSuggestion[]).indexOf(suggestion) + 1,
+      });
+    },
+    trackRecommendationImpression(response) {
+      const productIds = response.products.map(product => product.id);
+      productIds.forEach((productId, index) =>
+        attribute(productId, {
+          source: 'recommendation',
+          recsId: response.recsId,
+          model: response.metadata.modelName,
+          position: index + 1,
+        })
+      );
+      enqueue({
+        type: 'recommendationImpression',
+        recsId: response.recsId,
+        model: response.metadata.modelName,
+        productIds,
+      });
+    },
+    trackRecommendationClick(response, productId) {
+      enqueue({
+        type: 'recommendationClick',
+        recsId: response.recsId,
+        model: response.metadata.modelName,
+        productId,
+        position: response.products.findIndex(product => product.id === productId) + 1,
+      });
+    },
+    trackProductClick(productId) {
+      enqueue({ type: 'productClick', productId, attribution: attributions.get(productId) });
+    },
+    trackAddToCart({ quantity = 1, ...details }) {
+      enqueue({ type: 'addToCart', ...details, quantity, attribution: attributions.get(details.productId) });
+    },
+    flush,
+  };
+}
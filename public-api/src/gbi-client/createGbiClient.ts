@@ -0,0 +1,97 @@
+import { requestSearch } from '../search-requester/requestSearch';
+import { lazyLoadMore } from '../search-requester/lazyLoadMore';
+import { searchPages } from '../search-requester/searchPages';
+import { requestAutocomplete } from '../autocomplete-requester/requestAutocomplete';
+import { requestAutocompleteWithSearch } from '../autocomplete-requester/requestAutocompleteWithSearch';
+import { requestRecommendations } from '../recommendations-requester/requestRecommendations';
+import { createGbiTransport } from '../utils/gbiTransport';
+
+import type { GbiTransport, GbiTransportOptions } from '../utils/gbiTransport';
+import type { RequestSearchOptions, RequestSearchResponse } from '../search-requester/requestSearch';
+import type { LazyLoadMoreOptions } from '../search-requester/lazyLoadMore';
+import type { SearchPagesOptions, SearchPageCursor } from '../search-requester/searchPages';
+import type { RequestAutocompleteOptions, RequestAutocompleteResponse } from '../autocomplete-requester/requestAutocomplete';
+import type {
+  RequestAutocompleteSearchOptions,
+  RequestAutocompleteSearchResponse
+} from '../autocomplete-requester/requestAutocompleteWithSearch';
+import type { RequestRecsOptions, RequestRecsResponse } from '../recommendations-requester/requestRecommendations';
+import type { ShopifyConfig } from '../search-requester/fetchStorefrontProducts';
+import type { SearchResult, SearchProduct } from '../utils/searchUtils.types';
+
+/**
+ * Configuration for a GBI client. See {@link GbiTransportOptions} for the individual fields
+ * (endpoint resolution, fetch, `enricherFetch`, headers, `retry`, `searchCache`, `beaconTracker` and `identity`).
+ */
+export type GbiClientConfig = GbiTransportOptions;
+
+/**
+ * A GBI client bound to a shop tenant, an endpoint resolution strategy and a transport.
+ * Each method mirrors the standalone requester of the same name, minus the `shopTenant` and `appEnv` arguments.
+ */
+export interface GbiClient {
+  /**
+   * The resolved transport used by every request made through this client.
+   */
+  readonly transport: GbiTransport;
+  requestSearch(
+    searchOptions: RequestSearchOptions,
+    mergeShopifyData?: boolean,
+    shopifyConfig?: ShopifyConfig
+  ): Promise<RequestSearchResponse>;
+  /**
+   * @deprecated Use `searchPages`.
+   */
+  lazyLoadMore(
+    currentPage: number,
+    pageSize: number,
+    searchOptions: LazyLoadMoreOptions,
+    mergeShopifyData?: boolean,
+    shopifyConfig?: ShopifyConfig
+  ): Promise<SearchResult | SearchProduct[]>;
+  searchPages(options: SearchPagesOptions): SearchPageCursor;
+  requestAutocomplete(options: RequestAutocompleteOptions): Promise<RequestAutocompleteResponse>;
+  requestAutocompleteWithSearch(
+    options: RequestAutocompleteSearchOptions
+  ): Promise<RequestAutocompleteSearchResponse>;
+  requestRecommendations(recsOptions: RequestRecsOptions): Promise<RequestRecsResponse>;
+}
+
+/**
+ * Creates a GBI client that owns endpoint construction and transport for all requesters.
+ *
+ * @param config - The client configuration (see {@link GbiClientConfig}).
+ * @returns A client exposing the requesters as methods.
+ *
+ * @example
+ * // Point the SDK at a Shopify app-proxy path:
+ * const client = createGbiClient({
+ *   shopTenant: "shop123",
+ *   resolveEndpoint: ({ service }) => `/apps/gbi/api/${service}`,
+ * });
+ * const response = await client.requestSearch({ query: "sneakers", collection: "products", area: "Production", page: 1, pageSize: 12 });
+ *
+ * @example
+ * // Use a local stand-in in tests:
+ * const client = createGbiClient({ shopTenant: "shop123", baseUrl: "http://localhost:8080", fetch: mockFetch });
+ */
+export function createGbiClient(config: GbiClientConfig): GbiClient {
+  const transport = createGbiTransport(config);
+  const { shopTenant, appEnv } = transport;
+
+  return {
+    transport,
+    requestSearch: (searchOptions, mergeShopifyData = true, shopifyConfig) =>
+      requestSearch(shopTenant, appEnv, searchOptions, mergeShopifyData, shopifyConfig, transport),
+    lazyLoadMore: (currentPage, pageSize, searchOptions, mergeShopifyData = true, shopifyConfig) =>
+      lazyLoadMore(shopTenant, appEnv, currentPage, pageSize, searchOptions, mergeShopifyData, shopifyConfig, transport),
+    searchPages: (options) =>
+      searchPages(shopTenant, appEnv, options, transport),
+    requestAutocomplete: (options) =>
+      requestAutocomplete(shopTenant, appEnv, options, transport),
+    requestAutocompleteWithSearch: (options) =>
+      requestAutocompleteWithSearch(shopTenant, appEnv, options, transport),
+    requestRecommendations: (recsOptions) =>
+      requestRecommendations(shopTenant, appEnv, recsOptions, transport),
+  };
+}
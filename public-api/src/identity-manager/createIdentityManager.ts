@@ -0,0 +1,270 @@
+import { createBeaconId } from '../beacon-tracker/createBeaconTracker';
+import { debugLog } from '../utils/debugLogger';
+import type { ConsentProvider } from '../utils/trackingConsent';
+
+/**
+ * The identity attached to search and recommendations requests for personalization.
+ */
+export interface VisitorIdentity {
+  /** Anonymous id of the browser, persisted across visits. */
+  visitorId: string;
+  /** Id of the current visit; a new one starts after a period of inactivity. */
+  sessionId: string;
+  /** The logged-in Shopify customer id, if any. */
+  loginId?: string;
+}
+
+/**
+ * Where visitor and session ids are persisted.
+ */
+export type IdentityStorage = 'cookie' | 'localStorage' | 'memory';
+
+/**
+ * Options for creating an identity manager.
+ */
+export interface IdentityManagerOptions {
+  /**
+   * Where ids are persisted. Defaults to `cookie`; falls back to memory where the storage is unavailable.
+   */
+  storage?: IdentityStorage;
+  /**
+   * Days a visitor id is kept before a new one is generated. Defaults to 365.
+   */
+  visitorTtlDays?: number;
+  /**
+   * Minutes of inactivity after which a new session starts. Defaults to 30.
+   */
+  sessionTimeoutMinutes?: number;
+  /**
+   * Domain of the identity cookies, e.g. `.example.com` to share them across subdomains.
+   */
+  cookieDomain?: string;
+  /**
+   * Prefix of the cookie and storage keys. Defaults to `gbi_`.
+   */
+  keyPrefix?: string;
+  /**
+   * Returns the logged-in customer id. Defaults to reading the customer id Shopify exposes to theme scripts.
+   */
+  getLoginId?: () => string | undefined;
+  /**
+   * Shopper consent (see `createShopifyConsent`). Ids are only persisted with preferences consent; until then they
+   * live in memory for the current page, and they are removed from storage when consent is withdrawn.
+   * Without a provider, ids are always persisted.
+   */
+  consent?: ConsentProvider;
+}
+
+/**
+ * Generates, persists and rotates the visitor and session ids and resolves the logged-in customer.
+ */
+export interface IdentityManager {
+  /**
+   * Returns the current identity, starting a new session (or visitor) when the previous one expired.
+   * Each call extends the session.
+   */
+  getIdentity(): VisitorIdentity;
+  /**
+   * Overrides the logged-in customer id, e.g. in headless storefronts. `undefined` restores the default lookup.
+   */
+  setLoginId(loginId: string | undefined): void;
+  /**
+   * Forgets the stored ids; the next call to `getIdentity` starts a new visitor and session.
+   */
+  reset(): void;
+}
+
+/**
+ * A persisted id and when it expires (epoch milliseconds).
+ */
+interface StoredId {
+  id: string;
+  expiresAt: number;
+}
+
+/**
+ * Minimal key-value persistence the identity manager works on.
+ */
+interface IdentityStore {
+  get(key: string): string | undefined;
+  set(key: string, value: string, expiresAt: number): void;
+  remove(key: string): void;
+}
+
+/**
+ * The parts of the Shopify theme globals that carry the logged-in customer.
+ */
+interface ShopifyCustomerGlobals {
+  ShopifyAnalytics?: { meta?: { page?: { customerId?: number | string | null } } };
+  __st?: { cid?: number | string | null };
+}
+
+const DEFAULT_VISITOR_TTL_DAYS = 365;
+const DEFAULT_SESSION_TIMEOUT_MINUTES = 30;
+const DEFAULT_KEY_PREFIX = 'gbi_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+function createMemoryStore(): IdentityStore {
+  const values = new Map<string, string>();
+  return {
+    get: key => values.get(key),
+    set: (key, value) => void values.set(key, value),
+    remove: key => void values.delete(key),
+  };
+}
+
+function createCookieStore(cookieDomain?: string): IdentityStore | undefined {
+  const document = (globalThis as { document?: Document }).document;
+  if (!document || typeof document.cookie !== 'string') return undefined;
+  const attributes = `; path=/; SameSite=Lax${cookieDomain ? `; domain=${cookieDomain}` : ''}`;
+  return {
+    get(key) {
+      const prefix = `${key}=`;
+      const cookie = document.cookie.split('; ').find(entry => entry.startsWith(prefix));
+      return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : undefined;
+    },
+    set(key, value, expiresAt) {
+      document.cookie = `${key}=${encodeURIComponent(value)}; expires=${new Date(expiresAt).toUTCString()}${attributes}`;
+    },
+    remove(key) {
+      document.cookie = `${key}=; expires=${new Date(0).toUTCString()}${attributes}`;
+    },
+  };
+}
+
+function createLocalStorageStore(): IdentityStore | undefined {
+  try {
+    const localStorage = (globalThis as { localStorage?: Storage }).localStorage;
+    if (!localStorage) return undefined;
+    // Safari private mode and disabled storage throw on access.
+    localStorage.getItem(DEFAULT_KEY_PREFIX);
+    return {
+      get: key => localStorage.getItem(key) ?? undefined,
+      set: (key, value) => localStorage.setItem(key, value),
+      remove: key => localStorage.removeItem(key),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function createIdentityStore(storage: IdentityStorage, cookieDomain?: string): IdentityStore {
+  const store =
+    storage === 'cookie' ? createCookieStore(cookieDomain)
+      : storage === 'localStorage' ? createLocalStorageStore()
+        : undefined;
+  if (!store && storage !== 'memory') {
+    debugLog('Identity', `${storage} is unavailable, keeping ids in memory`);
+  }
+  return store ?? createMemoryStore();
+}
+
+function parseStoredId(value: string | undefined): StoredId | undefined {
+  if (!value) return undefined;
+  try {
+    const stored = JSON.parse(value) as Partial<StoredId>;
+    return typeof stored.id === 'string' && typeof stored.expiresAt === 'number' ? (stored as StoredId) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the logged-in customer id Shopify exposes to theme scripts.
+ *
+ * @returns The customer id, or `undefined` for guests and outside Shopify themes.
+ */
+export function getShopifyCustomerId(): string | undefined {
+  const globals = globalThis as ShopifyCustomerGlobals;
+  const customerId = globals.ShopifyAnalytics?.meta?.page?.customerId ?? globals.__st?.cid;
+  return customerId ? String(customerId) : undefined;
+}
+
+/**
+ * Creates an identity manager. Pass it to `createGbiClient({ identity })` to attach the visitor, session and
+ * customer ids to every search and recommendations request.
+ *
+ * @param options - Storage and rotation options (see {@link IdentityManagerOptions}).
+ * @returns The identity manager.
+ *
+ * @example
+ * const identity = createIdentityManager({ storage: "localStorage", sessionTimeoutMinutes: 20 });
+ * const client = createGbiClient({ shopTenant: "shop123", identity });
+ * const { visitorId, loginId } = identity.getIdentity();
+ */
+export function createIdentityManager(options: IdentityManagerOptions = {}): IdentityManager {
+  const persistentStore = createIdentityStore(options.storage ?? 'cookie', options.cookieDomain);
+  const memoryStore = createMemoryStore();
+  const keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  const visitorKey = `${keyPrefix}visitor_id`;
+  const sessionKey = `${keyPrefix}session_id`;
+  const persistAllowed = () => !options.consent || options.consent.getConsent()?.preferences === true;
+
+  // Ids are always kept in memory, and persisted as well while consent allows it.
+  const store: IdentityStore = {
+    get: key => (persistAllowed() ? persistentStore.get(key) : undefined) ?? memoryStore.get(key),
+    set(key, value, expiresAt) {
+      memoryStore.set(key, value, expiresAt);
+      if (persistAllowed()) persistentStore.set(key, value, expiresAt);
+    },
+    remove(key) {
+      memoryStore.remove(key);
+      persistentStore.remove(key);
+    },
+  };
+
+  options.consent?.subscribe(consent => {
+    if (!consent) return;
+    for (const key of [visitorKey, sessionKey]) {
+      const inMemory = parseStoredId(memoryStore.get(key));
+      if (!consent.preferences) {
+        // Keep using the persisted id for the rest of the page, without storing it.
+        const persisted = parseStoredId(persistentStore.get(key));
+        if (persisted && !inMemory) memoryStore.set(key, JSON.stringify(persisted), persisted.expiresAt);
+        persistentStore.remove(key);
+      } else if (inMemory && !parseStoredId(persistentStore.get(key))) {
+        // Keep the ids handed out before consent was given.
+        persistentStore.set(key, JSON.stringify(inMemory), inMemory.expiresAt);
+      }
+    }
+    debugLog('Identity', consent.preferences ? 'Persisting ids' : 'Removed persisted ids');
+  });
+  const visitorTtlMs = (options.visitorTtlDays ?? DEFAULT_VISITOR_TTL_DAYS) * DAY_MS;
+  const sessionTimeoutMs = (options.sessionTimeoutMinutes ?? DEFAULT_SESSION_TIMEOUT_MINUTES) * MINUTE_MS;
+  let loginIdOverride: string | undefined;
+
+  // Returns the stored id, or a new one once it expired. Sliding ids are extended on every use.
+  const resolveId = (key: string, ttlMs: number, sliding: boolean): string => {
+    const now = Date.now();
+    const stored = parseStoredId(store.get(key));
+    if (stored && stored.expiresAt > now) {
+      if (sliding) {
+        store.set(key, JSON.stringify({ id: stored.id, expiresAt: now + ttlMs }), now + ttlMs);
+      }
+      return stored.id;
+    }
+    const id = createBeaconId();
+    debugLog('Identity', `Starting a new ${key}`, id);
+    store.set(key, JSON.stringify({ id, expiresAt: now + ttlMs }), now + ttlMs);
+    return id;
+  };
+
+  return {
+    getIdentity() {
+      const loginId = loginIdOverride ?? (options.getLoginId ?? getShopifyCustomerId)();
+      return {
+        visitorId: resolveId(visitorKey, visitorTtlMs, false),
+        sessionId: resolveId(sessionKey, sessionTimeoutMs, true),
+        ...(loginId ? { loginId } : {}),
+      };
+    },
+    setLoginId(loginId) {
+      loginIdOverride = loginId;
+    },
+    reset() {
+      store.remove(visitorKey);
+      store.remove(sessionKey);
+    },
+  };
+}
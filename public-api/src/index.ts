@@ -1,24 +1,81 @@
 // Will act as "barrel file" to export publicly available functions
 import { requestSearch } from './search-requester/requestSearch';
 import { lazyLoadMore } from './search-requester/lazyLoadMore';
+import { searchPages } from './search-requester/searchPages';
 import { requestAutocomplete } from './autocomplete-requester/requestAutocomplete';
 import { requestAutocompleteWithSearch } from './autocomplete-requester/requestAutocompleteWithSearch';
 import { AUTOCOMPLETE_PREFIX } from './utils/searchUtils.types';
 import { fetchStorefrontProducts } from './search-requester/fetchStorefrontProducts';
 import { requestRecommendations } from './recommendations-requester/requestRecommendations';
+import { createGbiClient } from './gbi-client/createGbiClient';
 
 export {
   requestSearch,
   lazyLoadMore,
+  searchPages,
   requestAutocomplete,
   requestAutocompleteWithSearch,
   AUTOCOMPLETE_PREFIX,
   fetchStorefrontProducts,
-  requestRecommendations
+  requestRecommendations,
+  createGbiClient
 }
 
 // Re-export enums/constants needed by consumers
-export { AppEnv } from './utils/searchUtils.types';
+export { AppEnv, RefinementType, SortOrder } from './utils/searchUtils.types';
+export type { SortObject, Biasing, Bias, BiasStrength } from './utils/searchUtils.types';
+
+// Error classes thrown by the requesters
+export {
+  GbiError,
+  GbiHttpError,
+  GbiNetworkError,
+  GbiParseError,
+  GbiTimeoutError,
+  StorefrontApiError,
+  toGbiErrorInfo
+} from './utils/gbiErrors';
+export type { GbiErrorKind, GbiErrorInfo, StorefrontGraphQLError } from './utils/gbiErrors';
+
+// Timeout/retry policy and debug logging
+export { DEFAULT_RETRY_POLICY } from './utils/retryPolicy';
+export type { RetryPolicy } from './utils/retryPolicy';
+export { setDebugLogging } from './utils/debugLogger';
+
+// Analytics beacons
+export { createBeaconTracker, createBeaconId } from './beacon-tracker/createBeaconTracker';
+export type { BeaconTracker, BeaconTrackerOptions, BeaconTrackerSettings, BeaconDelivery, SearchBeaconDetails, AddToCartDetails } from './beacon-tracker/createBeaconTracker';
+export { createSendBeaconSink, createMemoryBeaconSink } from './beacon-tracker/beaconSinks';
+export type { MemoryBeaconSink } from './beacon-tracker/beaconSinks';
+export type {
+  BeaconEvent,
+  BeaconEventType,
+  BeaconAttribution,
+  BeaconSink,
+  SearchBeaconEvent,
+  AutocompleteSelectionBeaconEvent,
+  RecommendationImpressionBeaconEvent,
+  RecommendationClickBeaconEvent,
+  ProductClickBeaconEvent,
+  AddToCartBeaconEvent
+} from './beacon-tracker/beacon.types';
+
+// Visitor identity
+export { createIdentityManager, getShopifyCustomerId } from './identity-manager/createIdentityManager';
+export type {
+  IdentityManager,
+  IdentityManagerOptions,
+  IdentityStorage,
+  VisitorIdentity
+} from './identity-manager/createIdentityManager';
+
+// Shopper consent for beacons and persisted identifiers
+export { createShopifyConsent, createCallbackConsent } from './utils/trackingConsent';
+export type { TrackingConsent, ConsentProvider, CallbackConsentProvider } from './utils/trackingConsent';
+
+// Opt-in search response cache
+export { createSearchCache } from './utils/searchCache';
+export type { SearchCache, SearchCacheOptions } from './utils/searchCache';
 
 export type { 
   RecsProduct, 
@@ -27,3 +84,105 @@ export type {
   RequestRecsResponse, 
   RecsManagerConfig 
 } from './recommendations-requester/requestRecommendations';
+
+// GBI search response model
+export { validateSearchResponse } from './utils/searchResponseValidator';
+export type {
+  SearchResult,
+  SearchProduct,
+  ProductRecord,
+  ProductDetail,
+  ProductVariant,
+  ProductMetafield
+} from './utils/searchUtils.types';
+
+// Shopify merge outcomes and product enrichment
+export { buildPlaceholderProduct, mergeProductWithRecord } from './utils/searchUtils';
+export {
+  createStorefrontEnricher,
+  createAjaxEnricher,
+  createSectionRenderingEnricher,
+  createDefaultEnricher,
+  noneEnricher
+} from './utils/productEnrichers';
+export type {
+  ProductEnricher,
+  EnrichmentContext,
+  ProductMerger,
+  ShopifyEnricherOptions,
+  SectionRenderingEnricherOptions,
+  RenderedProductRecord
+} from './utils/productEnrichers';
+export type {
+  MissingProductPolicy,
+  MergeOutcome,
+  MergeRecordOutcome,
+  MergeDiagnostics
+} from './utils/searchUtils.types';
+export type { ShopifyConfig, MetafieldIdentifier } from './search-requester/fetchStorefrontProducts';
+export { resolveShopifyMarket } from './utils/shopifyMarket';
+export type { ShopifyMarket } from './utils/shopifyMarket';
+export type {
+  GbiRecord,
+  GbiRecordMeta,
+  GbiVariant,
+  GbiAttribute,
+  GbiNavigation,
+  GbiRefinement,
+  GbiValueRefinement,
+  GbiRangeRefinement,
+  GbiPageInfo,
+  GbiTemplate
+} from './utils/searchResponse.types';
+
+// Pre-filter builder
+export { preFilter, serializePreFilter, IN_STOCK_PRE_FILTER } from './utils/preFilter';
+export type { PreFilter, PreFilterRange } from './utils/preFilter';
+
+// Sort catalog
+export { createSortCatalog } from './utils/sortCatalog';
+export type { SortCatalog, SortOption } from './utils/sortCatalog';
+
+// Refinement string codec
+export {
+  encodeRefinement,
+  decodeRefinement,
+  serializeRefinements,
+  parseRefinements,
+  isSameRefinement
+} from './utils/refinementCodec';
+export type { DecodedRefinement, RefinementInput } from './utils/refinementCodec';
+
+// Spelling corrections, rewrites and keyword redirects
+export { parseQueryInfo } from './utils/queryInfo';
+export type { SearchQueryInfo } from './utils/queryInfo';
+
+// Facets built from search navigations
+export { parseFacets } from './utils/facetUtils';
+export type { Facet, FacetValue } from './utils/facetUtils';
+
+// Normalized autocomplete response model
+export { highlightSuggestion } from './utils/autocompleteUtils';
+export type {
+  AutocompleteResponse,
+  AutocompleteSuggestion,
+  QuerySuggestion,
+  NavigationSuggestion,
+  ProductSuggestion,
+  HighlightSegment,
+  GbiAutocompleteResponse,
+  GbiAutocompleteResult
+} from './utils/autocompleteResponse.types';
+export type { RequestAutocompleteResponse } from './autocomplete-requester/requestAutocomplete';
+export type { RequestAutocompleteSearchResponse } from './autocomplete-requester/requestAutocompleteWithSearch';
+
+export type { SearchPagesOptions, SearchPage, SearchPageCursor } from './search-requester/searchPages';
+
+export type { GbiClient, GbiClientConfig } from './gbi-client/createGbiClient';
+export type {
+  GbiService,
+  GbiEndpointContext,
+  GbiEndpointResolver,
+  GbiTransport,
+  FetchFn
+} from './utils/gbiTransport';
@@ -1,4 +1,11 @@
 import { AppEnv } from '../utils/searchUtils.types';
+import type { MergeDiagnostics, MissingProductPolicy, ProductRecord, SearchProduct } from '../utils/searchUtils.types';
+import { createGbiTransport, requestGbiJson } from '../utils/gbiTransport';
+import type { GbiTransport } from '../utils/gbiTransport';
+import { transformProductsForVariantRelevancy } from '../utils/searchUtils';
+import type { ProductEnricher } from '../utils/productEnrichers';
+import { createBeaconId } from '../beacon-tracker/createBeaconTracker';
+import type { IdentityManager } from '../identity-manager/createIdentityManager';
 
 export { AppEnv };
 
@@ -38,6 +45,8 @@ export interface RecsManagerConfig {
   eventType?: string;
   debug?: boolean;
   strictFiltering?: boolean;
+  /** Supplies `visitorId` and `loginId` when a request does not set them (see `createIdentityManager`) */
+  identity?: IdentityManager;
   initialized?: boolean;
 }
 
@@ -59,6 +68,14 @@ export interface RequestRecsOptions {
   eventType?: string;
   debug?: boolean;
   strictFiltering?: boolean;
+  /**
+   * Optional enrichment strategy (see `ProductEnricher`). When set, the response also carries `enrichedProducts`.
+   */
+  enricher?: ProductEnricher;
+  /**
+   * Optional policy for products the enricher has no data for. Defaults to `drop`.
+   */
+  missingProductPolicy?: MissingProductPolicy;
 }
 
 export interface RecsRequestProduct {
@@ -81,6 +98,8 @@ export interface RecsProduct {
  * The response from the recommendations API.
  */
 export interface RequestRecsResponse {
+  /** Identifies the response in beacons (see `BeaconTracker.trackRecommendationImpression`) */
+  recsId: string;
   /** Array of recommended products */
   products: RecsProduct[];
   metadata: {
@@ -88,24 +107,47 @@ export interface RequestRecsResponse {
     totalCount: number;
   };
   rawResponse: unknown;
+  /** Enriched products, present when an `enricher` was given */
+  enrichedProducts?: SearchProduct[];
+  /** Outcome of the enrichment, present when an `enricher` was given */
+  mergeDiagnostics?: MergeDiagnostics;
+}
+
+/**
+ * Adapts a recommended product to the record shape enrichers work on.
+ */
+function toProductRecord(product: RecsProduct): ProductRecord {
+  return {
+    allMeta: {
+      ...product,
+      id: product.id,
+      title: product.title ?? '',
+      attributes: {
+        ...(product.attributes as ProductRecord['allMeta']['attributes'] | undefined),
+        ...(product.handle ? { handle: { text: [product.handle] } } : {}),
+      },
+    },
+  };
 }
 
 /**
  * @param shopTenant
  * @param appEnv
  * @param recsOptions
+ * @param transport - Optional transport overriding endpoint construction and fetch (see `createGbiClient`).
+ *
+ * @throws {GbiNetworkError | GbiHttpError | GbiParseError} If the request fails.
  */
 export async function requestRecommendations(
   shopTenant: string,
   appEnv: AppEnv,
-  recsOptions: RequestRecsOptions
+  recsOptions: RequestRecsOptions,
+  transport: GbiTransport = createGbiTransport({ shopTenant, appEnv })
 ): Promise<RequestRecsResponse> {
-  const endpoint = `https://${appEnv === AppEnv.Production ? AppEnv.ProxyProd : AppEnv.ProxyDev}.groupbycloud.com/${shopTenant}/api/recommendation`;
-
   const headers = {
     'Content-Type': 'application/json',
     'X-Application-Type': 'recsapi',
-    'X-Groupby-Customer-Id': shopTenant,
+    'X-Groupby-Customer-Id': transport.shopTenant,
   };
 
   const requestBody: Record<string, unknown> = {
@@ -129,12 +171,17 @@ export async function requestRecommendations(
     requestBody.products = recsOptions.products;
   }
 
-  if (recsOptions.visitorId) {
-    requestBody.visitorId = recsOptions.visitorId;
+  // Explicit ids win over the ones of the transport's identity manager.
+  const identity = transport.identity?.getIdentity();
+  const visitorId = recsOptions.visitorId || identity?.visitorId;
+  const loginId = recsOptions.loginId || identity?.loginId;
+
+  if (visitorId) {
+    requestBody.visitorId = visitorId;
   }
 
-  if (recsOptions.loginId) {
-    requestBody.loginId = recsOptions.loginId;
+  if (loginId) {
+    requestBody.loginId = loginId;
   }
 
   if (recsOptions.filters) {
@@ -161,24 +208,33 @@ export async function requestRecommendations(
     requestBody.strictFiltering = recsOptions.strictFiltering;
   }
 
-  const response = await fetch(endpoint, {
+  const data = await requestGbiJson(transport, 'recommendation', {
     method: 'POST',
     headers,
     body: JSON.stringify(requestBody),
   });
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch recommendations: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-
-  return {
-    products: data.records || data.products || [],
+  const products: RecsProduct[] = data.records || data.products || [];
+  const response: RequestRecsResponse = {
+    recsId: createBeaconId(),
+    products,
     metadata: {
       modelName: recsOptions.name,
       totalCount: data.totalCount || (data.records?.length || data.products?.length || 0),
     },
     rawResponse: data,
   };
+
+  if (recsOptions.enricher) {
+    const { products: enrichedProducts, diagnostics } = await transformProductsForVariantRelevancy(
+      { records: products.map(toProductRecord) },
+      recsOptions.enricher,
+      { retryPolicy: transport.retryPolicy, fetch: transport.enricherFetch },
+      recsOptions.missingProductPolicy
+    );
+    response.enrichedProducts = enrichedProducts;
+    response.mergeDiagnostics = diagnostics;
+  }
+
+  return response;
 }
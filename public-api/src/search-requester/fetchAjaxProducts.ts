@@ -0,0 +1,49 @@
+import { ProductDetail, ProductDetailsResult } from "../utils/searchUtils.types";
+import { DEFAULT_RETRY_POLICY, fetchWithRetry } from "../utils/retryPolicy";
+import type { RetryPolicy } from "../utils/retryPolicy";
+import { resolveShopifyMarket } from "../utils/shopifyMarket";
+import type { FetchFn } from "../utils/gbiTransport";
+
+/**
+ * Fetches Shopify product details from the theme's AJAX `/products/{handle}.js` endpoint, under the locale root
+ * of the current page (`window.Shopify.routes.root`, e.g. `/fr-ca/products/{handle}.js`).
+ *
+ * Lookups that fail are logged and reported as `null`, so one missing product does not fail the others.
+ *
+ * @param handles - An array of Shopify product handles.
+ * @param retryPolicy - Optional timeout and retry policy, applied to each lookup. Defaults to `DEFAULT_RETRY_POLICY`.
+ * @param signal - Optional AbortSignal to cancel the lookups.
+ * @param fetchFn - Optional fetch implementation, e.g. the client's `enricherFetch`. Defaults to the global `fetch`.
+ * @returns A promise that resolves to one product per handle, in handle order (`null` for handles that were not found).
+ * @throws Throws the abort reason if `signal` is aborted.
+ */
+export async function fetchAjaxProducts(
+  handles: string[],
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal,
+  fetchFn: FetchFn = (input, init) => fetch(input, init)
+): Promise<ProductDetailsResult> {
+  const { routesRoot } = resolveShopifyMarket();
+  const promises = handles.map(async handle => {
+    try {
+      const url = `${routesRoot}products/${encodeURIComponent(handle)}.js`;
+      const { response } = await fetchWithRetry(fetchFn, url, { signal }, retryPolicy);
+      if (!response.ok) {
+        console.warn(`Could not find ${handle}`);
+        return null;
+      }
+      const data = await response.json() as ProductDetail;
+      return data;
+    } catch (e) {
+      console.warn(`Error fetching ${handle}`, e);
+      return null;
+    }
+  });
+
+  const products = await Promise.all(promises);
+
+  // Individual lookups swallow their errors, so surface a cancellation explicitly.
+  signal?.throwIfAborted();
+
+  return { products };
+}
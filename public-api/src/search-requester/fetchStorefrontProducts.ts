@@ -1,165 +1,861 @@
-import { ProductDetail, ProductDetailsResult, ProductVariant } from "../utils/searchUtils.types";
+import {
+  ProductDetail,
+  ProductDetailsResult,
+  ProductMedia,
+  ProductOption,
+  ProductVariant,
+  SellingPlanAllocation,
+  SellingPlanGroup,
+  SellingPlanPriceAdjustment,
+  ProductMetafield,
+} from "../utils/searchUtils.types";
+import { GbiParseError, StorefrontApiError } from "../utils/gbiErrors";
+import { DEFAULT_RETRY_POLICY, fetchWithRetry } from "../utils/retryPolicy";
+import type { RetryPolicy } from "../utils/retryPolicy";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { debugLog } from "../utils/debugLogger";
+import { resolveShopifyMarket } from "../utils/shopifyMarket";
+import type { FetchFn } from "../utils/gbiTransport";
 
 /**
- * Fetches Shopify product details using the Storefront API with GraphQL.
- *
- * @param handles - An array of Shopify product handles.
- * @returns A promise that resolves to an object containing the fetched product details.
- * @throws Will throw an error if the Shopify configuration is missing or if the API request fails.
- *
- * @example
- * const result = await fetchStorefrontProducts(["gift-card", "shirt"]);
- * console.log(result.products); // Array of ProductDetail objects
+ * Storefront API access and batching settings.
  */
-
 export interface ShopifyConfig {
   domain: string;
   token: string;
+  /**
+   * Maximum number of handles looked up per Storefront query (1-250). Defaults to 50.
+   */
+  chunkSize?: number;
+  /**
+   * Maximum number of Storefront queries in flight at once. Defaults to 3.
+   */
+  concurrency?: number;
+  /**
+   * Variants fetched per page (1-250). Products with more variants are completed page by page. Defaults to 250.
+   */
+  variantsPageSize?: number;
+  /**
+   * Images fetched per product (1-250). Defaults to 10.
+   */
+  imagesPerProduct?: number;
+  /**
+   * Storefront API version, e.g. `"2025-04"` or `"unstable"`. Defaults to `"2025-01"`.
+   */
+  apiVersion?: string;
+  /**
+   * Buyer country (ISO 3166-1 alpha-2, e.g. `"CA"`), so prices and availability follow its Shopify Market.
+   * Defaults to `window.Shopify.country` when present.
+   */
+  country?: string;
+  /**
+   * Storefront language (ISO 639-1, e.g. `"fr"` or `"pt-BR"`), so titles and descriptions are translated.
+   * Defaults to `window.Shopify.locale` when present.
+   */
+  language?: string;
+  /**
+   * Product metafields to load, mapped onto `ProductDetail.metafields` keyed by `namespace.key`.
+   * Metafields must be exposed to the Storefront API.
+   */
+  productMetafields?: MetafieldIdentifier[];
+  /**
+   * Variant metafields to load, mapped onto `ProductVariant.metafields` keyed by `namespace.key`.
+   */
+  variantMetafields?: MetafieldIdentifier[];
+  /**
+   * A GraphQL fragment on `Product` selecting extra fields, e.g.
+   * `fragment Badges on Product { collections(first: 5) { nodes { handle } } }`.
+   * The selected fields are mapped onto `ProductDetail.fragment_fields`.
+   */
+  productFragment?: string;
+  /**
+   * A GraphQL fragment on `ProductVariant` selecting extra fields, mapped onto `ProductVariant.fragment_fields`.
+   */
+  variantFragment?: string;
 }
 
-export async function fetchStorefrontProducts(handles: string[], shopifyConfig: ShopifyConfig): Promise<ProductDetailsResult> {
+/**
+ * Identifies a metafield by namespace and key.
+ */
+export interface MetafieldIdentifier {
+  namespace: string;
+  key: string;
+}
 
-  const { domain, token } = shopifyConfig;
-  const endpoint = `https://${domain}/api/2025-01/graphql.json`;
+const DEFAULT_CHUNK_SIZE = 50;
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_VARIANTS_PAGE_SIZE = 250;
+const DEFAULT_IMAGES_PER_PRODUCT = 10;
+// Upper bound of `first` on any Storefront connection.
+const MAX_PAGE_SIZE = 250;
+// Selling plan groups, plans per group and allocations per variant fetched with each product.
+const SELLING_PLANS_PAGE_SIZE = 20;
+const DEFAULT_API_VERSION = '2025-01';
+const API_VERSION_PATTERN = /^(\d{4}-\d{2}|unstable)$/;
+const FRAGMENT_PATTERN = /^\s*fragment\s+([_A-Za-z][_0-9A-Za-z]*)\s+on\s+([_A-Za-z][_0-9A-Za-z]*)\s*\{/;
 
-  if (!handles.length) {
-    return { products: [] };
+interface StorefrontMoney {
+  amount: string;
+  currencyCode: string;
+}
+
+interface StorefrontPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface StorefrontConnection<T> {
+  pageInfo?: StorefrontPageInfo;
+  edges: { node: T }[];
+}
+
+interface StorefrontAmount {
+  amount: string;
+}
+
+interface StorefrontMetafield {
+  namespace: string;
+  key: string;
+  value: string;
+  type: string;
+}
+
+interface StorefrontSellingPlanAllocationNode {
+  sellingPlan: { id: string };
+  priceAdjustments: {
+    price: StorefrontAmount;
+    compareAtPrice: StorefrontAmount;
+    perDeliveryPrice: StorefrontAmount;
+  }[];
+}
+
+interface StorefrontVariantNode {
+  id: string;
+  title: string;
+  sku: string | null;
+  barcode: string | null;
+  availableForSale: boolean;
+  requiresShipping: boolean;
+  weight: number | null;
+  weightUnit: 'GRAMS' | 'KILOGRAMS' | 'OUNCES' | 'POUNDS';
+  price: StorefrontMoney;
+  compareAtPrice: StorefrontMoney | null;
+  selectedOptions: { name: string; value: string }[];
+  quantityRule: { minimum: number; maximum: number | null; increment: number };
+  image: { url: string } | null;
+  sellingPlanAllocations: StorefrontConnection<StorefrontSellingPlanAllocationNode>;
+  metafields?: (StorefrontMetafield | null)[];
+}
+
+interface StorefrontImageNode {
+  url: string;
+  altText: string | null;
+}
+
+interface StorefrontMediaNode {
+  id: string;
+  alt: string | null;
+  mediaContentType: 'IMAGE' | 'VIDEO' | 'EXTERNAL_VIDEO' | 'MODEL_3D';
+  previewImage: { url: string; width: number | null; height: number | null } | null;
+}
+
+type StorefrontPriceAdjustmentValue =
+  | { __typename: 'SellingPlanPercentagePriceAdjustment'; adjustmentPercentage: number }
+  | { __typename: 'SellingPlanFixedAmountPriceAdjustment'; adjustmentAmount: StorefrontAmount }
+  | { __typename: 'SellingPlanFixedPriceAdjustment'; price: StorefrontAmount };
+
+interface StorefrontSellingPlanNode {
+  id: string;
+  name: string;
+  description: string | null;
+  recurringDeliveries: boolean;
+  options: { name: string; value: string }[];
+  priceAdjustments: { orderCount: number | null; adjustmentValue: StorefrontPriceAdjustmentValue }[];
+}
+
+interface StorefrontSellingPlanGroupNode {
+  name: string;
+  appName: string | null;
+  options: { name: string; values: string[] }[];
+  sellingPlans: StorefrontConnection<StorefrontSellingPlanNode>;
+}
+
+interface StorefrontProductNode {
+  id: string;
+  title: string;
+  handle: string;
+  descriptionHtml: string;
+  publishedAt: string;
+  createdAt: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  availableForSale: boolean;
+  requiresSellingPlan: boolean;
+  options: { name: string; optionValues: { name: string }[] }[];
+  priceRange: { minVariantPrice: StorefrontMoney; maxVariantPrice: StorefrontMoney };
+  compareAtPriceRange: { minVariantPrice: StorefrontMoney; maxVariantPrice: StorefrontMoney };
+  variants: StorefrontConnection<StorefrontVariantNode>;
+  images: StorefrontConnection<StorefrontImageNode>;
+  media: StorefrontConnection<StorefrontMediaNode>;
+  featuredImage: StorefrontImageNode | null;
+  sellingPlanGroups: StorefrontConnection<StorefrontSellingPlanGroupNode>;
+  metafields?: (StorefrontMetafield | null)[];
+}
+
+// Fields of the built-in selection sets. Any other field on a node was selected by a custom fragment.
+const PRODUCT_BASE_FIELDS = new Set([
+  'id', 'title', 'handle', 'descriptionHtml', 'publishedAt', 'createdAt', 'vendor', 'productType', 'tags',
+  'availableForSale', 'requiresSellingPlan', 'options', 'priceRange', 'compareAtPriceRange', 'variants',
+  'images', 'media', 'featuredImage', 'sellingPlanGroups', 'metafields',
+]);
+const VARIANT_BASE_FIELDS = new Set([
+  'id', 'title', 'sku', 'barcode', 'availableForSale', 'requiresShipping', 'weight', 'weightUnit', 'price',
+  'compareAtPrice', 'selectedOptions', 'quantityRule', 'image', 'sellingPlanAllocations', 'metafields',
+]);
+
+/**
+ * A custom fragment from the Shopify config, with its name parsed out.
+ */
+interface StorefrontFragment {
+  name: string;
+  definition: string;
+}
+
+/**
+ * The configurable parts of the Storefront queries.
+ */
+interface StorefrontSelection {
+  /** Whether the queries carry an `@inContext` directive for the buyer's country and language. */
+  inContext: boolean;
+  productMetafields: MetafieldIdentifier[];
+  variantMetafields: MetafieldIdentifier[];
+  productFragment?: StorefrontFragment;
+  variantFragment?: StorefrontFragment;
+}
+
+const VARIANT_FIELDS = `
+  id
+  title
+  sku
+  barcode
+  availableForSale
+  requiresShipping
+  weight
+  weightUnit
+  price { amount currencyCode }
+  compareAtPrice { amount currencyCode }
+  selectedOptions { name value }
+  quantityRule { minimum maximum increment }
+  image { url }
+  sellingPlanAllocations(first: ${SELLING_PLANS_PAGE_SIZE}) {
+    edges {
+      node {
+        sellingPlan { id }
+        priceAdjustments {
+          price { amount }
+          compareAtPrice { amount }
+          perDeliveryPrice { amount }
+        }
+      }
+    }
   }
+`;
 
-  const handleQuery = handles.map(handle => `handle:${handle}`).join(' OR ');
-  const query = `
-    query GetProductsByHandles($query: String!) {
-      products(first: 250, query: $query) {
-        edges {
-          node {
-            id
-            title
-            handle
-            description
-            vendor
-            productType
-            tags
-            availableForSale
-            priceRange {
-              minVariantPrice { amount currencyCode }
-              maxVariantPrice { amount currencyCode }
-            }
-            compareAtPriceRange {
-              minVariantPrice { amount currencyCode }
-              maxVariantPrice { amount currencyCode }
-            }
-            variants(first: 250) {
-              edges {
-                node {
-                  id
-                  title
-                  sku
-                  availableForSale
-                  price { amount currencyCode }
-                  compareAtPrice { amount currencyCode }
+const METAFIELD_FIELDS = 'namespace key value type';
+
+function parseFragment(fragment: string | undefined, typeName: string, option: string): StorefrontFragment | undefined {
+  if (fragment === undefined) return undefined;
+  const match = FRAGMENT_PATTERN.exec(fragment);
+  if (!match || match[2] !== typeName) {
+    throw new Error(`Invalid ${option}: expected a GraphQL fragment "fragment Name on ${typeName} { ... }"`);
+  }
+  return { name: match[1], definition: fragment.trim() };
+}
+
+function variantSelection(selection: StorefrontSelection): string {
+  const metafields = selection.variantMetafields.length
+    ? `metafields(identifiers: $variantMetafields) { ${METAFIELD_FIELDS} }`
+    : '';
+  const fragment = selection.variantFragment ? `...${selection.variantFragment.name}` : '';
+  return `${VARIANT_FIELDS} ${metafields} ${fragment}`;
+}
+
+function variantMetafieldsVariable(selection: StorefrontSelection): string {
+  return selection.variantMetafields.length ? ', $variantMetafields: [HasMetafieldsIdentifier!]!' : '';
+}
+
+function contextVariables(selection: StorefrontSelection): string {
+  return selection.inContext ? ', $country: CountryCode, $language: LanguageCode' : '';
+}
+
+function contextDirective(selection: StorefrontSelection): string {
+  return selection.inContext ? ' @inContext(country: $country, language: $language)' : '';
+}
+
+const PRODUCT_FIELDS_FRAGMENT = 'GbiProductFields';
+
+/**
+ * Builds the query looking up `handleCount` products by handle. Each product is requested under its own
+ * alias (`product0`, `product1`, ...), so results are matched to the requested handles even when the
+ * returned `handle` is translated by `@inContext(language:)`.
+ */
+function buildProductsQuery(selection: StorefrontSelection, handleCount: number): string {
+  const handleVariables = Array.from({ length: handleCount }, (_, i) => `$handle${i}: String!`).join(', ');
+  const aliases = Array.from(
+    { length: handleCount },
+    (_, i) => `product${i}: product(handle: $handle${i}) { ...${PRODUCT_FIELDS_FRAGMENT} }`
+  ).join('\n    ');
+  const productMetafieldsVariable = selection.productMetafields.length
+    ? ', $productMetafields: [HasMetafieldsIdentifier!]!'
+    : '';
+  const productMetafields = selection.productMetafields.length
+    ? `metafields(identifiers: $productMetafields) { ${METAFIELD_FIELDS} }`
+    : '';
+  const productFragment = selection.productFragment ? `...${selection.productFragment.name}` : '';
+  const fragments = [selection.productFragment, selection.variantFragment]
+    .map(fragment => fragment?.definition ?? '')
+    .join('\n');
+
+  return `
+  query GetProductsByHandles(${handleVariables}, $variantsFirst: Int!, $imagesFirst: Int!${productMetafieldsVariable}${variantMetafieldsVariable(selection)}${contextVariables(selection)})${contextDirective(selection)} {
+    ${aliases}
+  }
+  fragment ${PRODUCT_FIELDS_FRAGMENT} on Product {
+    id
+    title
+    handle
+    descriptionHtml
+    publishedAt
+    createdAt
+    vendor
+    productType
+    tags
+    availableForSale
+    requiresSellingPlan
+    options(first: 3) {
+      name
+      optionValues { name }
+    }
+    priceRange {
+      minVariantPrice { amount currencyCode }
+      maxVariantPrice { amount currencyCode }
+    }
+    compareAtPriceRange {
+      minVariantPrice { amount currencyCode }
+      maxVariantPrice { amount currencyCode }
+    }
+    variants(first: $variantsFirst) {
+      pageInfo { hasNextPage endCursor }
+      edges {
+        node { ${variantSelection(selection)} }
+      }
+    }
+    images(first: $imagesFirst) {
+      edges {
+        node { url altText }
+      }
+    }
+    media(first: $imagesFirst) {
+      edges {
+        node {
+          id
+          alt
+          mediaContentType
+          previewImage { url width height }
+        }
+      }
+    }
+    featuredImage { url altText }
+    sellingPlanGroups(first: ${SELLING_PLANS_PAGE_SIZE}) {
+      edges {
+        node {
+          name
+          appName
+          options { name values }
+          sellingPlans(first: ${SELLING_PLANS_PAGE_SIZE}) {
+            edges {
+              node {
+                id
+                name
+                description
+                recurringDeliveries
+                options { name value }
+                priceAdjustments {
+                  orderCount
+                  adjustmentValue {
+                    __typename
+                    ... on SellingPlanPercentagePriceAdjustment { adjustmentPercentage }
+                    ... on SellingPlanFixedAmountPriceAdjustment { adjustmentAmount { amount } }
+                    ... on SellingPlanFixedPriceAdjustment { price { amount } }
+                  }
                 }
               }
             }
-            images(first: 10) {
-              edges {
-                node { url altText }
-              }
-            }
-            featuredImage { url altText }
           }
         }
       }
     }
-  `;
+    ${productMetafields}
+    ${productFragment}
+  }
+  ${fragments}
+`;
+}
 
-  const variables = { query: handleQuery };
+function buildVariantsQuery(selection: StorefrontSelection): string {
+  return `
+  query GetProductVariants($id: ID!, $first: Int!, $after: String${variantMetafieldsVariable(selection)}${contextVariables(selection)})${contextDirective(selection)} {
+    product(id: $id) {
+      variants(first: $first, after: $after) {
+        pageInfo { hasNextPage endCursor }
+        edges {
+          node { ${variantSelection(selection)} }
+        }
+      }
+    }
+  }
+  ${selection.variantFragment?.definition ?? ''}
+`;
+}
 
-  try {
-    const response = await fetch(endpoint, {
+/**
+ * Settings of a single `fetchStorefrontProducts` call, resolved from the Shopify config.
+ */
+interface StorefrontRequestContext {
+  endpoint: string;
+  token: string;
+  retryPolicy: RetryPolicy;
+  signal?: AbortSignal;
+  fetch: FetchFn;
+  variantsPageSize: number;
+  imagesPerProduct: number;
+  selection: StorefrontSelection;
+  variantsQuery: string;
+  /**
+   * Variables shared by the queries. The variants query takes all of them but `productMetafields`.
+   */
+  queryVariables: {
+    productMetafields?: MetafieldIdentifier[];
+    variantMetafields?: MetafieldIdentifier[];
+    country?: string;
+    language?: string;
+  };
+}
+
+function clampPageSize(value: number | undefined, fallback: number): number {
+  if (value === undefined || !Number.isFinite(value)) return fallback;
+  return Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(value)));
+}
+
+/**
+ * Sends a GraphQL query to the Storefront API and returns its `data`.
+ */
+async function postStorefrontQuery<TData>(
+  context: StorefrontRequestContext,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<TData> {
+  const { endpoint, token, retryPolicy, signal } = context;
+  const { response, attempts } = await fetchWithRetry(
+    context.fetch,
+    endpoint,
+    {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'X-Shopify-Storefront-Access-Token': token,
       },
       body: JSON.stringify({ query, variables }),
+      signal,
+    },
+    retryPolicy
+  );
+
+  if (!response.ok) {
+    const errorMessage = await response.text().catch(() => '');
+    throw new StorefrontApiError(endpoint, errorMessage || response.statusText, { status: response.status, attempts });
+  }
+
+  let data;
+  try {
+    data = await response.json();
+  } catch (error) {
+    throw new GbiParseError(endpoint, error, attempts);
+  }
+
+  if (data.errors?.length) {
+    throw new StorefrontApiError(endpoint, data.errors.map((e: { message: string }) => e.message).join('; '), {
+      status: response.status,
+      errors: data.errors,
+      attempts,
     });
+  }
+
+  return data.data as TData;
+}
+
+/**
+ * Loads the variants beyond the first page of a product, following the `pageInfo` cursor.
+ */
+async function completeVariants(context: StorefrontRequestContext, product: StorefrontProductNode): Promise<void> {
+  let pageInfo = product.variants.pageInfo;
+  while (pageInfo?.hasNextPage && pageInfo.endCursor) {
+    debugLog('Storefront', `Fetching more variants for ${product.handle}`);
+    const { productMetafields, ...variables } = context.queryVariables;
+    const data = await postStorefrontQuery<{ product: { variants: StorefrontConnection<StorefrontVariantNode> } | null }>(
+      context,
+      context.variantsQuery,
+      {
+        ...variables,
+        id: product.id,
+        first: context.variantsPageSize,
+        after: pageInfo.endCursor,
+      }
+    );
+    const variants = data?.product?.variants;
+    if (!variants) break;
+    product.variants.edges.push(...variants.edges);
+    pageInfo = variants.pageInfo;
+  }
+}
 
-    if (!response.ok) {
-      const errorMessage = await response.text();
-      throw new Error(`Failed to fetch Storefront API: ${errorMessage}`);
+/**
+ * Fetches the products of one chunk of handles.
+ *
+ * @returns One entry per handle, in the order of `handles` (`null` for handles that were not found).
+ */
+async function fetchProductChunk(
+  context: StorefrontRequestContext,
+  handles: readonly string[]
+): Promise<(StorefrontProductNode | null)[]> {
+  const handleVariables = Object.fromEntries(handles.map((handle, i) => [`handle${i}`, handle]));
+  const data = await postStorefrontQuery<Record<string, StorefrontProductNode | null> | null>(
+    context,
+    buildProductsQuery(context.selection, handles.length),
+    {
+      ...context.queryVariables,
+      ...handleVariables,
+      variantsFirst: context.variantsPageSize,
+      imagesFirst: context.imagesPerProduct,
     }
+  );
+  const products = handles.map((_, i) => data?.[`product${i}`] ?? null);
+
+  for (const product of products) {
+    if (product) await completeVariants(context, product);
+  }
+  return products;
+}
+
+// Grams per unit of the Storefront `weightUnit`; the AJAX API reports weights in grams.
+const GRAMS_PER_WEIGHT_UNIT: Record<StorefrontVariantNode['weightUnit'], number> = {
+  GRAMS: 1,
+  KILOGRAMS: 1000,
+  OUNCES: 28.349523125,
+  POUNDS: 453.59237,
+};
 
-    const data = await response.json();
-    const products = data.data?.products?.edges?.map(edge => edge.node) || [];
+const MEDIA_TYPES: Record<StorefrontMediaNode['mediaContentType'], string> = {
+  IMAGE: 'image',
+  VIDEO: 'video',
+  EXTERNAL_VIDEO: 'external_video',
+  MODEL_3D: 'model',
+};
 
-    // Map to ProductDetail type
+// Title Shopify gives the only variant of a product without options.
+const DEFAULT_VARIANT_TITLE = 'Default Title';
+
+/**
+ * Extracts the numeric id from a Storefront global id, e.g. `gid://shopify/ProductVariant/42` -> 42.
+ */
+function parseGid(gid: string): number {
+  return parseInt(gid.split('/').pop()?.split('?')[0] || '0', 10);
+}
+
+/**
+ * Keys metafields by `namespace.key`, skipping identifiers that did not resolve to a metafield.
+ */
+function mapMetafields(metafields: (StorefrontMetafield | null)[] | undefined): Record<string, ProductMetafield> | undefined {
+  if (!metafields) return undefined;
+  const byKey: Record<string, ProductMetafield> = {};
+  for (const metafield of metafields) {
+    if (metafield) {
+      byKey[`${metafield.namespace}.${metafield.key}`] = { ...metafield };
+    }
+  }
+  return byKey;
+}
+
+/**
+ * Collects the fields of a node that are not part of the built-in selection set.
+ */
+function pickFragmentFields(node: object, baseFields: ReadonlySet<string>): Record<string, unknown> | undefined {
+  const entries = Object.entries(node).filter(([field]) => !baseFields.has(field));
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+function parseAmount(money: StorefrontAmount): number {
+  return parseFloat(money.amount);
+}
+
+function mapMedia(media: StorefrontMediaNode, index: number): ProductMedia {
+  const src = media.previewImage?.url ?? '';
+  const width = media.previewImage?.width ?? 0;
+  const height = media.previewImage?.height ?? 0;
+  const aspectRatio = width && height ? width / height : 1;
+  return {
+    alt: media.alt || null,
+    id: parseGid(media.id),
+    position: index + 1,
+    preview_image: { aspect_ratio: aspectRatio, height, width, src },
+    aspect_ratio: aspectRatio,
+    height,
+    media_type: MEDIA_TYPES[media.mediaContentType] ?? media.mediaContentType.toLowerCase(),
+    src,
+    width,
+  };
+}
+
+function mapPriceAdjustment(
+  adjustment: StorefrontSellingPlanNode['priceAdjustments'][number],
+  index: number
+): SellingPlanPriceAdjustment {
+  const value = adjustment.adjustmentValue;
+  const base = { order_count: adjustment.orderCount, position: index + 1 };
+  switch (value.__typename) {
+    case 'SellingPlanPercentagePriceAdjustment':
+      return { ...base, value_type: 'percentage', value: value.adjustmentPercentage };
+    case 'SellingPlanFixedAmountPriceAdjustment':
+      return { ...base, value_type: 'fixed_amount', value: parseAmount(value.adjustmentAmount) };
+    case 'SellingPlanFixedPriceAdjustment':
+      return { ...base, value_type: 'price', value: parseAmount(value.price) };
+  }
+}
+
+function mapSellingPlanGroup(group: StorefrontSellingPlanGroupNode): SellingPlanGroup {
+  return {
+    name: group.name,
+    app_id: group.appName,
+    options: group.options.map((option, index) => ({ name: option.name, position: index + 1, values: option.values })),
+    selling_plans: group.sellingPlans.edges.map(({ node: plan }) => ({
+      id: parseGid(plan.id),
+      name: plan.name,
+      description: plan.description,
+      options: plan.options.map((option, index) => ({ name: option.name, position: index + 1, value: option.value })),
+      recurring_deliveries: plan.recurringDeliveries,
+      price_adjustments: plan.priceAdjustments.map(mapPriceAdjustment),
+    })),
+  };
+}
+
+function mapSellingPlanAllocation(allocation: StorefrontSellingPlanAllocationNode): SellingPlanAllocation {
+  const [first] = allocation.priceAdjustments;
+  return {
+    selling_plan_id: parseGid(allocation.sellingPlan.id),
+    price: first ? parseAmount(first.price) : 0,
+    compare_at_price: first ? parseAmount(first.compareAtPrice) : null,
+    per_delivery_price: first ? parseAmount(first.perDeliveryPrice) : 0,
+    price_adjustments: allocation.priceAdjustments.map((adjustment, index) => ({
+      position: index + 1,
+      price: parseAmount(adjustment.price),
+    })),
+  };
+}
+
+function mapVariant(
+  variant: StorefrontVariantNode,
+  product: StorefrontProductNode,
+  options: ProductOption[]
+): ProductVariant {
+  // Option values in the order of the product options, as option1..option3 are in the AJAX API.
+  const optionValues = options.map(option =>
+    variant.selectedOptions.find(selected => selected.name === option.name)?.value ?? null
+  );
+  const values = optionValues.filter((value): value is string => value !== null);
+  const isDefault = variant.title === DEFAULT_VARIANT_TITLE;
+  const weight = variant.weight ?? 0;
+
+  return {
+    id: parseGid(variant.id),
+    title: variant.title,
+    option1: optionValues[0] ?? variant.title,
+    option2: optionValues[1] ?? null,
+    option3: optionValues[2] ?? null,
+    sku: variant.sku ?? '',
+    requires_shipping: variant.requiresShipping,
+    taxable: true, // Not exposed by the Storefront API
+    featured_image: variant.image?.url ?? null,
+    available: variant.availableForSale,
+    name: isDefault ? product.title : `${product.title} - ${variant.title}`,
+    public_title: isDefault ? null : variant.title,
+    options: values.length ? values : [variant.title],
+    price: parseAmount(variant.price),
+    weight: Math.round(weight * (GRAMS_PER_WEIGHT_UNIT[variant.weightUnit] ?? 1)),
+    compare_at_price: variant.compareAtPrice ? parseAmount(variant.compareAtPrice) : null,
+    inventory_management: null, // Not exposed by the Storefront API
+    barcode: variant.barcode || null,
+    quantity_rule: {
+      min: variant.quantityRule?.minimum ?? 1,
+      max: variant.quantityRule?.maximum ?? null,
+      increment: variant.quantityRule?.increment ?? 1,
+    },
+    quantity_price_breaks: [],
+    requires_selling_plan: product.requiresSellingPlan,
+    selling_plan_allocations: (variant.sellingPlanAllocations?.edges ?? []).map(edge => mapSellingPlanAllocation(edge.node)),
+    metafields: mapMetafields(variant.metafields),
+    fragment_fields: pickFragmentFields(variant, VARIANT_BASE_FIELDS),
+  };
+}
+
+/**
+ * Maps a Storefront product to the shape of the AJAX `/products/{handle}.js` endpoint.
+ * Prices are decimal amounts, as returned by the Storefront API. Fields the Storefront API
+ * does not expose (`taxable`, `inventory_management`) get the AJAX defaults.
+ */
+function mapStorefrontProduct(product: StorefrontProductNode): ProductDetail {
+  const options: ProductOption[] = product.options.map((option, index) => ({
+    name: option.name,
+    position: index + 1,
+    values: option.optionValues.map(value => value.name),
+  }));
+  const variants = product.variants.edges.map(edge => mapVariant(edge.node, product, options));
+
+  return {
+    id: parseGid(product.id),
+    title: product.title,
+    handle: product.handle,
+    description: product.descriptionHtml,
+    published_at: product.publishedAt,
+    created_at: product.createdAt,
+    vendor: product.vendor,
+    type: product.productType,
+    tags: product.tags,
+    price: parseFloat(product.priceRange.minVariantPrice.amount),
+    price_min: parseFloat(product.priceRange.minVariantPrice.amount),
+    price_max: parseFloat(product.priceRange.maxVariantPrice.amount),
+    available: product.availableForSale,
+    price_varies: product.priceRange.minVariantPrice.amount !== product.priceRange.maxVariantPrice.amount,
+    compare_at_price: product.compareAtPriceRange.maxVariantPrice.amount ? parseFloat(product.compareAtPriceRange.maxVariantPrice.amount) : null,
+    compare_at_price_min: parseFloat(product.compareAtPriceRange.minVariantPrice.amount),
+    compare_at_price_max: parseFloat(product.compareAtPriceRange.maxVariantPrice.amount),
+    compare_at_price_varies: product.compareAtPriceRange.minVariantPrice.amount !== product.compareAtPriceRange.maxVariantPrice.amount,
+    variants,
+    images: product.images.edges.map(i => i.node.url),
+    featured_image: product.featuredImage?.url || (product.images.edges[0]?.node.url || ''),
+    options,
+    url: `/products/${product.handle}`,
+    media: (product.media?.edges ?? []).map((edge, index) => mapMedia(edge.node, index)),
+    requires_selling_plan: product.requiresSellingPlan,
+    selling_plan_groups: (product.sellingPlanGroups?.edges ?? []).map(edge => mapSellingPlanGroup(edge.node)),
+    metafields: mapMetafields(product.metafields),
+    fragment_fields: pickFragmentFields(product, PRODUCT_BASE_FIELDS),
+  };
+}
+
+/**
+ * Fetches Shopify product details using the Storefront API with GraphQL.
+ *
+ * Handles are looked up in chunks of `shopifyConfig.chunkSize`, with at most `shopifyConfig.concurrency`
+ * queries in flight; variants spanning several pages are followed through their cursors.
+ * The result lists one entry per input handle, in input order (`null` for handles that were not found),
+ * matched by the requested handle even when the Storefront API returns a translated one.
+ *
+ * @param handles - An array of Shopify product handles.
+ * @param shopifyConfig - The Storefront API domain and access token, plus optional batching settings.
+ * @param retryPolicy - Optional timeout and retry policy, applied to each query. Defaults to `DEFAULT_RETRY_POLICY`.
+ * @param signal - Optional AbortSignal to cancel the request.
+ * @param fetchFn - Optional fetch implementation, e.g. the client's `enricherFetch`. Defaults to the global `fetch`.
+ * @returns A promise that resolves to an object containing the fetched product details.
+ * @throws {GbiTimeoutError} If the last attempt timed out.
+ * @throws {GbiNetworkError} If no response was received.
+ * @throws {StorefrontApiError} If the Storefront API responds with a non-OK status or GraphQL errors.
+ * @throws {GbiParseError} If the response body is not valid JSON.
+ * @throws Throws an error if `apiVersion`, `productFragment` or `variantFragment` is malformed.
+ *
+ * @example
+ * const result = await fetchStorefrontProducts(["gift-card", "shirt"], { domain: "shop.myshopify.com", token: "..." });
+ * console.log(result.products); // Array of ProductDetail objects
+ */
+export async function fetchStorefrontProducts(
+  handles: string[],
+  shopifyConfig: ShopifyConfig,
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal,
+  fetchFn: FetchFn = (input, init) => fetch(input, init)
+): Promise<ProductDetailsResult> {
+
+  const { domain, token, apiVersion = DEFAULT_API_VERSION } = shopifyConfig;
+  if (!API_VERSION_PATTERN.test(apiVersion)) {
+    throw new Error(`Invalid Storefront API version "${apiVersion}"`);
+  }
+  const endpoint = `https://${domain}/api/${apiVersion}/graphql.json`;
+
+  if (!handles.length) {
+    return { products: [] };
+  }
+
+  const market = resolveShopifyMarket({ country: shopifyConfig.country, language: shopifyConfig.language });
+  const selection: StorefrontSelection = {
+    inContext: Boolean(market.country || market.language),
+    productMetafields: shopifyConfig.productMetafields ?? [],
+    variantMetafields: shopifyConfig.variantMetafields ?? [],
+    productFragment: parseFragment(shopifyConfig.productFragment, 'Product', 'productFragment'),
+    variantFragment: parseFragment(shopifyConfig.variantFragment, 'ProductVariant', 'variantFragment'),
+  };
+  const context: StorefrontRequestContext = {
+    endpoint,
+    token,
+    retryPolicy,
+    signal,
+    fetch: fetchFn,
+    variantsPageSize: clampPageSize(shopifyConfig.variantsPageSize, DEFAULT_VARIANTS_PAGE_SIZE),
+    imagesPerProduct: clampPageSize(shopifyConfig.imagesPerProduct, DEFAULT_IMAGES_PER_PRODUCT),
+    selection,
+    variantsQuery: buildVariantsQuery(selection),
+    queryVariables: {
+      productMetafields: selection.productMetafields.length ? selection.productMetafields : undefined,
+      variantMetafields: selection.variantMetafields.length ? selection.variantMetafields : undefined,
+      country: market.country,
+      language: market.language,
+    },
+  };
+  const chunkSize = clampPageSize(shopifyConfig.chunkSize, DEFAULT_CHUNK_SIZE);
+  const uniqueHandles = [...new Set(handles)];
+  const chunks: string[][] = [];
+  for (let i = 0; i < uniqueHandles.length; i += chunkSize) {
+    chunks.push(uniqueHandles.slice(i, i + chunkSize));
+  }
+
+  try {
+    debugLog('Storefront', `Fetching ${uniqueHandles.length} products in ${chunks.length} chunk(s)`);
+    const chunkResults = await mapWithConcurrency(
+      chunks,
+      shopifyConfig.concurrency ?? DEFAULT_CONCURRENCY,
+      chunk => fetchProductChunk(context, chunk)
+    );
+
+    // Keyed by the requested handle: the returned `handle` may be translated for the buyer's language.
+    const productsByHandle = new Map<string, StorefrontProductNode>();
+    chunks.forEach((chunk, chunkIndex) => {
+      chunk.forEach((handle, i) => {
+        const product = chunkResults[chunkIndex][i];
+        if (product) productsByHandle.set(handle, product);
+      });
+    });
+
+    // Map to ProductDetail type, preserving the order of the input handles
     const mappedProducts = handles.map(handle => {
-      const product = products.find(p => p.handle === handle);
-      if (!product) return null;
-
-      const variants = product.variants.edges.map(v => ({
-        ...v.node,
-        id: parseInt(v.node.id.split('/').pop() || '0', 10), // Convert GID to number
-        price: parseFloat(v.node.price.amount),
-        compareAtPrice: v.node.compareAtPrice ? parseFloat(v.node.compareAtPrice.amount) : null,
-        // Add missing fields with defaults if needed
-        option1: null,
-        option2: null,
-        option3: null,
-        requires_shipping: true,
-        taxable: true,
-        featured_image: null,
-        options: [],
-        quantity_rule: { min: 1, max: null, increment: 1 },
-        quantity_price_breaks: [],
-        requires_selling_plan: false,
-        selling_plan_allocations: [],
-      })) as ProductVariant[];
-
-      return {
-        id: parseInt(product.id.split('/').pop() || '0', 10),
-        title: product.title,
-        handle: product.handle,
-        description: product.description,
-        published_at: 'published_placeholder',
-        created_at: 'created_placeholder',
-        vendor: product.vendor,
-        type: product.productType,
-        tags: product.tags,
-        price: parseFloat(product.priceRange.minVariantPrice.amount),
-        price_min: parseFloat(product.priceRange.minVariantPrice.amount),
-        price_max: parseFloat(product.priceRange.maxVariantPrice.amount),
-        available: product.availableForSale,
-        price_varies: product.priceRange.minVariantPrice.amount !== product.priceRange.maxVariantPrice.amount,
-        compare_at_price: product.compareAtPriceRange.maxVariantPrice.amount ? parseFloat(product.compareAtPriceRange.maxVariantPrice.amount) : null,
-        compare_at_price_min: parseFloat(product.compareAtPriceRange.minVariantPrice.amount),
-        compare_at_price_max: parseFloat(product.compareAtPriceRange.maxVariantPrice.amount),
-        compare_at_price_varies: product.compareAtPriceRange.minVariantPrice.amount !== product.compareAtPriceRange.maxVariantPrice.amount,
-        variants,
-        images: product.images.edges.map(i => i.node.url),
-        featured_image: product.featuredImage?.url || (product.images.edges[0]?.node.url || ''),
-        options: [], // Not fetched; add if needed
-        url: `/products/${product.handle}`,
-        media: product.images.edges.map(i => ({
-          alt: i.node.altText || null,
-          id: 0, // Placeholder; adjust if needed
-          position: 0,
-          preview_image: { aspect_ratio: 1, height: 0, width: 0, src: i.node.url },
-          aspect_ratio: 1,
-          height: 0,
-          media_type: 'image',
-          src: i.node.url,
-          width: 0,
-        })),
-        requires_selling_plan: false,
-        selling_plan_groups: [],
-      } as ProductDetail;
+      const product = productsByHandle.get(handle);
+      return product ? mapStorefrontProduct(product) : null;
     });
 
     return { products: mappedProducts };
 
   } catch (error) {
-    console.error('Error fetching storefront products:', error);
+    if (!signal?.aborted) {
+      console.error('Error fetching storefront products:', error);
+    }
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -4,7 +4,13 @@ import {
   transformProductsForVariantRelevancy 
 } from '../utils/searchUtils';
 
-import type { SearchResult, ProductDetail, AppEnv } from '../utils/searchUtils.types';
+import type { SearchResult, SearchProduct, AppEnv, Biasing, MissingProductPolicy } from '../utils/searchUtils.types';
+import { createGbiTransport } from '../utils/gbiTransport';
+import type { GbiTransport } from '../utils/gbiTransport';
+import type { ShopifyConfig } from './fetchStorefrontProducts';
+import type { PreFilter } from '../utils/preFilter';
+import { createDefaultEnricher } from '../utils/productEnrichers';
+import type { ProductEnricher } from '../utils/productEnrichers';
 
 /**
  * Options for lazy loading more search results.
@@ -23,7 +29,7 @@ export interface LazyLoadMoreOptions {
    */
   area: string;
   /**
-   * Optional sort order (default is "relevance").
+   * Optional sort order (default is "relevance"). A sort option id when the client has a sort catalog.
    */
   sortBy?: string;
   /**
@@ -34,6 +40,33 @@ export interface LazyLoadMoreOptions {
    * Optional collection ID.
    */
   collectionId?: string;
+  /**
+   * Optional pre-filter replacing the default in-stock filter (see `preFilter`).
+   */
+  preFilter?: PreFilter;
+  /**
+   * Optional list of record fields to return (default: all fields). Narrowing it reduces the payload, e.g. on grid
+   * pages; when merging Shopify data keep the fields the merge relies on (id, handle and variants).
+   */
+  fields?: readonly string[];
+  /**
+   * Optional, lets GBI pick the most relevant navigations for each query (dynamic navigation). Defaults to false.
+   */
+  dynamicFacet?: boolean;
+  /**
+   * Optional biasing (boost/bury) rules for this search.
+   */
+  biasing?: Biasing;
+  /**
+   * Optional policy for records whose Shopify product is not found when merging: drop them (default),
+   * keep the GBI record, or use a placeholder product.
+   */
+  missingProductPolicy?: MissingProductPolicy;
+  /**
+   * Optional enrichment strategy used when merging (see `ProductEnricher`). Defaults to the Storefront
+   * GraphQL API when a Shopify config is given, and to the AJAX endpoint otherwise.
+   */
+  enricher?: ProductEnricher;
 }
 
 /**
@@ -42,12 +75,16 @@ export interface LazyLoadMoreOptions {
  * This function increments the current page, keeps the page size constant, and returns either the raw search results
  * or the merged Shopify data for the next page based on the `mergeShopifyData` flag.
  *
+ * @deprecated Use `searchPages`, which tracks the page, yields consistently shaped pages and stops at the last page.
+ *
  * @param shopTenant - The shop tenant identifier.
  * @param appEnv - The application environment.
  * @param currentPage - The current page number.
  * @param pageSize - The number of results per page.
  * @param searchOptions - Options for the search request (see {@link LazyLoadMoreOptions}).
  * @param mergeShopifyData - Optional flag indicating whether Shopify data should be merged. Defaults to true.
+ * @param shopifyConfig - Optional Storefront API configuration used when merging Shopify data.
+ * @param transport - Optional transport overriding endpoint construction and fetch (see `createGbiClient`).
  * @returns A promise that resolves to the GBI Search response or merged Shopify products.
  *
  * @example
@@ -75,8 +112,10 @@ export async function lazyLoadMore(
   currentPage: number,
   pageSize: number,
   searchOptions: LazyLoadMoreOptions,
-  mergeShopifyData: boolean = true
-): Promise<SearchResult | ProductDetail[]> {
+  mergeShopifyData: boolean = true,
+  shopifyConfig?: ShopifyConfig,
+  transport: GbiTransport = createGbiTransport({ shopTenant, appEnv })
+): Promise<SearchResult | SearchProduct[]> {
   try {
     const nextPage = currentPage + 1;
 
@@ -89,13 +128,24 @@ export async function lazyLoadMore(
       sortBy: searchOptions.sortBy || 'relevance',
       refinements: searchOptions.refinements || [],
       collectionId: searchOptions.collectionId,
+      sortCatalog: transport.sortCatalog,
+      preFilter: searchOptions.preFilter,
+      fields: searchOptions.fields,
+      dynamicFacet: searchOptions.dynamicFacet,
+      biasing: searchOptions.biasing,
+      identity: transport.identity?.getIdentity(),
     });
 
-    const searchResults = await fetchSearchResults(shopTenant, appEnv, gbiSearchArgs);
+    const searchResults = await fetchSearchResults(transport, gbiSearchArgs);
 
     if (mergeShopifyData) {
-      const mergedProducts = await transformProductsForVariantRelevancy(searchResults);
-      return mergedProducts;
+      const { products } = await transformProductsForVariantRelevancy(
+        searchResults,
+        searchOptions.enricher ?? createDefaultEnricher(shopifyConfig),
+        { retryPolicy: transport.retryPolicy, fetch: transport.enricherFetch },
+        searchOptions.missingProductPolicy
+      );
+      return products;
     } else {
       return searchResults;
     }
@@ -1,21 +1,39 @@
 import {
   buildSearchArguments,
   fetchSearchResults,
+  modifyQueryForAutocomplete,
   transformProductsForVariantRelevancy,
 } from '../utils/searchUtils';
 
-import type { SearchResult, ProductDetail, AppEnv } from '../utils/searchUtils.types';
+import type {
+  SearchResult,
+  SearchProduct,
+  AppEnv,
+  Biasing,
+  MergeDiagnostics,
+  MissingProductPolicy,
+} from '../utils/searchUtils.types';
 import type { ShopifyConfig } from './fetchStorefrontProducts';
+import { buildGbiRequestKey, createGbiTransport } from '../utils/gbiTransport';
+import { dedupeInflight } from '../utils/inflightRequests';
+import type { GbiTransport } from '../utils/gbiTransport';
+import type { PreFilter } from '../utils/preFilter';
+import { createDefaultEnricher, getEnricherId } from '../utils/productEnrichers';
+import type { ProductEnricher } from '../utils/productEnrichers';
+import { parseQueryInfo } from '../utils/queryInfo';
+import type { SearchQueryInfo } from '../utils/queryInfo';
+import { createBeaconId } from '../beacon-tracker/createBeaconTracker';
 /**
  * Options for the search request.
  */
 export interface RequestSearchOptions {
   /**
-   * Optional search ID for the autoSearch beacon.
+   * Optional search ID reported in beacons. Generated when omitted.
    */
   searchId?: string;
   /**
-   * The search query string.
+   * The search query string. Queries submitted from an autocomplete suggestion may carry `AUTOCOMPLETE_PREFIX`,
+   * which is stripped before searching and reported as a `sayt` search in beacons.
    */
   query?: string;
   /**
@@ -35,40 +53,84 @@ export interface RequestSearchOptions {
    */
   pageSize: number;
   /**
-   * Optional sort order (default is "relevance").
+   * Optional sort order (default is "relevance"). A sort option id when the client has a sort catalog.
    */
   sortBy?: string;
   /**
    * Optional array of refinement strings.
    */
-  refinements?: string[];
+  refinements?: readonly string[];
   /**
    * Optional collection ID.
    */
   collectionId?: string;
+  /**
+   * Optional pre-filter replacing the default in-stock filter (see `preFilter`). On collection pages
+   * the collection restriction is still applied.
+   */
+  preFilter?: PreFilter;
+  /**
+   * Optional list of record fields to return (default: all fields). Narrowing it reduces the payload, e.g. on grid
+   * pages; when merging Shopify data keep the fields the merge relies on (id, handle and variants).
+   */
+  fields?: readonly string[];
+  /**
+   * Optional, lets GBI pick the most relevant navigations for each query (dynamic navigation). Defaults to false.
+   */
+  dynamicFacet?: boolean;
+  /**
+   * Optional biasing (boost/bury) rules for this search.
+   */
+  biasing?: Biasing;
+  /**
+   * Optional policy for records whose Shopify product is not found when merging: drop them (default),
+   * keep the GBI record, or use a placeholder product.
+   */
+  missingProductPolicy?: MissingProductPolicy;
+  /**
+   * Optional enrichment strategy used when merging (see `ProductEnricher`). Defaults to the Storefront
+   * GraphQL API when a Shopify config is given, and to the AJAX endpoint otherwise.
+   */
+  enricher?: ProductEnricher;
+  /**
+   * Optional, whether the search is tracked as a `search` beacon when the transport has a `beaconTracker`.
+   * Defaults to true; pass false for searches the shopper did not submit, e.g. product previews.
+   */
+  track?: boolean;
+  /**
+   * Optional AbortSignal to cancel the search and the Shopify merge step.
+   */
+  signal?: AbortSignal;
 }
 
 /**
  * Defines the shape of the search response returned by requestSearch.
  * In both cases (merging enabled or not) we return an object with the same keys.
+ * The query info (`originalQuery`, `correctedQuery`, `didYouMean`, `rewrites`, `redirectUrl`) is read from the raw response.
  */
-export interface RequestSearchResponse {
-  mergedProducts: ProductDetail[]; // merged products when merging is enabled,
+export interface RequestSearchResponse extends SearchQueryInfo {
+  searchId: string;                // identifies this search in beacons (the given `searchId`, or a generated one)
+  mergedProducts: SearchProduct[]; // merged products when merging is enabled,
                                    // or the raw API products when merging is not enabled
   rawResponse: SearchResult;       // the complete raw response from the API
+  mergeDiagnostics?: MergeDiagnostics; // outcome of the Shopify merge, present when merging is enabled
 }
 
 /**
  * Sends a search request to GBI Search and returns the search response.
  *
  * This function wraps our existing search functions to provide a simple API for submitting search requests.
- * It also enables automatic integration with our Shopify Beacons by attaching a searchId to a known global variable.
+ * When the transport has a `beaconTracker`, the displayed results are tracked as a `search` beacon under the
+ * returned `searchId`, unless `track` is false.
  *
  * @param shopTenant - The shop tenant identifier.
  * @param appEnv - The application environment.
  * @param searchOptions - Options for the search request (see {@link RequestSearchOptions}).
  * @param mergeShopifyData - If true, merges Shopify data for variant relevancy. Defaults to true.
- * @returns A promise that resolves to the search response (always with the same shape).
+ * @param shopifyConfig - Optional Storefront API configuration used when merging Shopify data.
+ * @param transport - Optional transport overriding endpoint construction and fetch (see `createGbiClient`).
+ * @returns A promise that resolves to the search response (always with the same shape), including spelling
+ * corrections and the keyword redirect configured for the query (see {@link SearchQueryInfo}).
  *
  * @example
  * // Get merged Shopify data (default):
@@ -94,17 +156,16 @@ export async function requestSearch(
   appEnv: AppEnv,
   searchOptions: RequestSearchOptions,
   mergeShopifyData = true,
-  shopifyConfig?: ShopifyConfig
+  shopifyConfig?: ShopifyConfig,
+  transport: GbiTransport = createGbiTransport({ shopTenant, appEnv })
 ): Promise<RequestSearchResponse> {
   try {
-    // If searchId is provided, set the global GBI_SEARCH_ID.
-    if (searchOptions.searchId) {
-      (globalThis as any).GBI_SEARCH_ID = searchOptions.searchId;
-    }
+    const searchId = searchOptions.searchId ?? createBeaconId();
+    const { modifiedQuery, searchBeaconType } = modifyQueryForAutocomplete(searchOptions.query || '');
 
     // Build the search arguments using our helper.
     const gbiSearchArgs = buildSearchArguments({
-      query: searchOptions.query || '',
+      query: modifiedQuery,
       collection: searchOptions.collection,
       area: searchOptions.area,
       page: searchOptions.page,
@@ -112,26 +173,85 @@ export async function requestSearch(
       sortBy: searchOptions.sortBy || 'relevance',
       refinements: searchOptions.refinements || [],
       collectionId: searchOptions.collectionId,
+      sortCatalog: transport.sortCatalog,
+      preFilter: searchOptions.preFilter,
+      fields: searchOptions.fields,
+      dynamicFacet: searchOptions.dynamicFacet,
+      biasing: searchOptions.biasing,
+      identity: transport.identity?.getIdentity(),
     });
 
-    // Fetch search results from the API.
-    const searchResults = await fetchSearchResults(shopTenant, appEnv, gbiSearchArgs);
+    const enricher = searchOptions.enricher ?? createDefaultEnricher(shopifyConfig);
+
+    const fetchAndMerge = async (signal?: AbortSignal): Promise<Omit<RequestSearchResponse, 'searchId'>> => {
+      // Fetch search results from the API.
+      const searchResults = await fetchSearchResults(transport, gbiSearchArgs, signal);
 
-    // If merging is enabled, merge the Shopify data.
-    if (mergeShopifyData) {
-    
-      const mergedProducts = await transformProductsForVariantRelevancy(searchResults, shopifyConfig);
+      // If merging is enabled, merge the Shopify data.
+      if (mergeShopifyData) {
 
-      // Return the merged products along with the raw response.
-      return { mergedProducts, rawResponse: searchResults };
+        const { products: mergedProducts, diagnostics } = await transformProductsForVariantRelevancy(
+          searchResults,
+          enricher,
+          { retryPolicy: transport.retryPolicy, signal, fetch: transport.enricherFetch },
+          searchOptions.missingProductPolicy
+        );
+
+        // Return the merged products along with the raw response.
+        return { mergedProducts, rawResponse: searchResults, mergeDiagnostics: diagnostics, ...parseQueryInfo(searchResults) };
+      } else {
+        // Even when merging is disabled, for consistency we return the products under 'mergedProducts'
+        // (using the raw API response's products) and also return the full raw response.
+        // (Assuming the raw response has a 'products' property.)
+        return { mergedProducts: searchResults.records, rawResponse: searchResults, ...parseQueryInfo(searchResults) };
+      }
+    };
+
+    let response: Omit<RequestSearchResponse, 'searchId'>;
+    if (!transport.dedupeRequests) {
+      response = await fetchAndMerge(searchOptions.signal);
     } else {
-      // Even when merging is disabled, for consistency we return the products under 'mergedProducts'
-      // (using the raw API response's products) and also return the full raw response.
-      // (Assuming the raw response has a 'products' property.)
-      return { mergedProducts: searchResults.records, rawResponse: searchResults };
+      // Identical concurrent searches (e.g. several widgets on one page) share one request, merge step included.
+      const requestKey = buildGbiRequestKey(transport, 'search', {
+        gbiSearchArgs,
+        mergeShopifyData,
+        shopifyConfig: mergeShopifyData ? shopifyConfig : undefined,
+        missingProductPolicy: mergeShopifyData ? searchOptions.missingProductPolicy : undefined,
+        // The default enricher follows from the Shopify config; enrichers passed in are told apart by instance.
+        enricher: mergeShopifyData ? (searchOptions.enricher ? getEnricherId(searchOptions.enricher) : enricher.name) : undefined,
+      });
+      response = await dedupeInflight(transport.inflightRequests, requestKey, searchOptions.signal, fetchAndMerge);
+    }
+
+    // Each caller displays the results, so shared requests are still tracked once per call.
+    const isNavigation = !modifiedQuery && Boolean(searchOptions.collectionId);
+    if (searchOptions.track === false) {
+      return { ...response, searchId };
     }
+    transport.beaconTracker?.trackSearch({
+      searchId,
+      query: modifiedQuery,
+      correctedQuery: response.correctedQuery,
+      searchBeaconType: {
+        ...searchBeaconType,
+        search: searchBeaconType.search && !isNavigation,
+        navigation: isNavigation,
+        dym: Boolean(response.correctedQuery),
+      },
+      page: searchOptions.page,
+      pageSize: searchOptions.pageSize,
+      totalRecordCount: response.rawResponse.totalRecordCount ?? 0,
+      productIds: (response.rawResponse.records ?? []).map(record => record.allMeta?.id).filter(Boolean),
+      refinements: [...(searchOptions.refinements ?? [])],
+      collectionId: searchOptions.collectionId,
+    });
+
+    return { ...response, searchId };
   } catch (error) {
-    console.error("Error in requestSearch:", error);
+    // A cancelled (superseded) search is expected, so don't report it as an error.
+    if (!searchOptions.signal?.aborted) {
+      console.error("Error in requestSearch:", error);
+    }
     throw error;
   }
 }
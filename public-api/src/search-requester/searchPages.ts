@@ -0,0 +1,146 @@
+import { requestSearch } from './requestSearch';
+import type { RequestSearchOptions } from './requestSearch';
+import type { ShopifyConfig } from './fetchStorefrontProducts';
+import type { AppEnv, MergeDiagnostics, SearchProduct, SearchResult } from '../utils/searchUtils.types';
+import { createGbiTransport } from '../utils/gbiTransport';
+import type { GbiTransport } from '../utils/gbiTransport';
+
+/**
+ * Options for paging through search results. Accepts the options of `requestSearch`
+ * (including `enricher` and `missingProductPolicy`), except for the page number.
+ * Only the first page loaded is tracked as a `search` beacon unless `track` is given, which then applies to every page.
+ */
+export interface SearchPagesOptions extends Omit<RequestSearchOptions, 'page'> {
+  /**
+   * Optional first page to load. Defaults to 1.
+   */
+  startPage?: number;
+  /**
+   * Optional flag indicating whether Shopify data should be merged. Defaults to true.
+   */
+  mergeShopifyData?: boolean;
+  /**
+   * Optional Storefront API configuration used when merging Shopify data.
+   */
+  shopifyConfig?: ShopifyConfig;
+}
+
+/**
+ * One page of search results. `products` are merged products when merging is enabled, or the raw records otherwise.
+ */
+export interface SearchPage {
+  products: SearchProduct[];
+  rawResponse: SearchResult;
+  /** The page number, starting at 1. */
+  page: number;
+  /** Whether there are more pages, according to `totalRecordCount`. */
+  hasMore: boolean;
+  mergeDiagnostics?: MergeDiagnostics;
+}
+
+/**
+ * A cursor over the pages of a search. Pages are loaded one at a time, on demand, and the cursor stops after the
+ * page reaching `totalRecordCount` (or the first empty page). It can be consumed with `for await` or with `next()`.
+ */
+export interface SearchPageCursor extends AsyncIterable<SearchPage> {
+  /**
+   * The number of the page the next call to `next()` loads.
+   */
+  readonly nextPage: number;
+  /**
+   * False once the last page has been loaded.
+   */
+  readonly hasMore: boolean;
+  /**
+   * Loads the next page. Concurrent calls are queued, so each loads its own page.
+   *
+   * @returns The next page, or `null` when there are no more pages.
+   */
+  next(): Promise<SearchPage | null>;
+}
+
+/**
+ * Pages through search results.
+ *
+ * @param shopTenant - The shop tenant identifier.
+ * @param appEnv - The application environment.
+ * @param options - The search options (see {@link SearchPagesOptions}).
+ * @param transport - Optional transport overriding endpoint construction and fetch (see `createGbiClient`).
+ * @returns A cursor over the result pages.
+ * @throws A failing page request rejects `next()` (and the `for await` loop); the cursor can be retried.
+ *
+ * @example
+ * // Infinite scroll:
+ * const pages = searchPages("shop123", AppEnv.Production, { query: "sneakers", collection: "Footwear", area: "Retail", pageSize: 24 });
+ * loadMoreButton.onclick = async () => {
+ *   const page = await pages.next();
+ *   if (page) renderProducts(page.products);
+ *   loadMoreButton.hidden = !pages.hasMore;
+ * };
+ *
+ * @example
+ * // Export every result (only the first page is tracked as a search beacon):
+ * for await (const page of searchPages("shop123", AppEnv.Production, { ...options, mergeShopifyData: false })) {
+ *   rows.push(...page.products);
+ * }
+ */
+export function searchPages(
+  shopTenant: string,
+  appEnv: AppEnv,
+  options: SearchPagesOptions,
+  transport: GbiTransport = createGbiTransport({ shopTenant, appEnv })
+): SearchPageCursor {
+  const { startPage = 1, mergeShopifyData = true, shopifyConfig, ...searchOptions } = options;
+  const firstPage = Math.max(1, Math.floor(startPage));
+  let nextPage = firstPage;
+  let hasMore = true;
+  // Serializes `next()` calls so that each one loads a distinct page.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const loadNextPage = async (): Promise<SearchPage | null> => {
+    if (!hasMore) return null;
+    const page = nextPage;
+    const response = await requestSearch(
+      shopTenant,
+      appEnv,
+      // Later pages continue the search the shopper submitted, so they are not tracked as searches of their own.
+      { ...searchOptions, page, track: searchOptions.track ?? page === firstPage },
+      mergeShopifyData,
+      shopifyConfig,
+      transport
+    );
+    const { rawResponse } = response;
+    hasMore = (rawResponse.records?.length ?? 0) > 0 && page * searchOptions.pageSize < (rawResponse.totalRecordCount ?? 0);
+    nextPage = page + 1;
+
+    return {
+      products: response.mergedProducts,
+      rawResponse,
+      page,
+      hasMore,
+      mergeDiagnostics: response.mergeDiagnostics,
+    };
+  };
+
+  const cursor: SearchPageCursor = {
+    get nextPage() {
+      return nextPage;
+    },
+    get hasMore() {
+      return hasMore;
+    },
+    next() {
+      const result = queue.then(loadNextPage);
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    async *[Symbol.asyncIterator]() {
+      let page = await cursor.next();
+      while (page) {
+        yield page;
+        page = await cursor.next();
+      }
+    },
+  };
+  return cursor;
+}
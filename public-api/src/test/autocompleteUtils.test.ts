@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { highlightSuggestion, normalizeAutocompleteResponse } from '../utils/autocompleteUtils';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+const raw = {
+	id: 'ac-1',
+	results: [
+		{ term: 'shoes' },
+		{ term: 'Nike Shoes', type: 'BRAND', navigationName: 'brands', displayName: 'Brand' },
+		{ term: 'sandals', type: 'CATEGORY' },
+		{ term: '' },
+	],
+};
+
+describe('highlightSuggestion', () => {
+	it('highlights the typed prefix at the start of a word only', () => {
+		expect(highlightSuggestion('Running Shoes', 'sh')).toEqual([
+			{ text: 'Running ', highlighted: false },
+			{ text: 'Sh', highlighted: true },
+			{ text: 'oes', highlighted: false },
+		]);
+		expect(highlightSuggestion('Brushes', 'sh')).toEqual([{ text: 'Brushes', highlighted: false }]);
+	});
+});
+
+describe('normalizeAutocompleteResponse', () => {
+	it('splits results into query and navigation suggestions by their navigation name', () => {
+		const autocomplete = normalizeAutocompleteResponse(raw, 'sh');
+
+		expect(autocomplete.querySuggestions.map((suggestion) => suggestion.term)).toEqual(['shoes', 'sandals']);
+		expect(autocomplete.navigationSuggestions).toEqual([
+			expect.objectContaining({ type: 'navigation', term: 'Nike Shoes', navigationName: 'brands', displayName: 'Brand' }),
+		]);
+		expect(autocomplete).toMatchObject({ id: 'ac-1', query: 'sh', productSuggestions: [], raw });
+	});
+
+	it('tolerates a missing response', () => {
+		expect(normalizeAutocompleteResponse(null, 'sh')).toMatchObject({ querySuggestions: [], raw: {} });
+	});
+});
+
+describe('requestAutocomplete', () => {
+	it('returns the normalized suggestions and the raw response', async () => {
+		const fetch = vi.fn(async () => jsonResponse(raw));
+		const client = createGbiClient({ shopTenant: 'tenant', fetch });
+
+		const { autocomplete, rawResponse } = await client.requestAutocomplete({
+			query: 'sh',
+			collection: 'products',
+			area: 'Production',
+		});
+
+		expect(rawResponse).toEqual(raw);
+		expect(autocomplete.querySuggestions[0].term).toBe('shoes');
+		expect(autocomplete.autocompleteId).toEqual(expect.any(String));
+	});
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createBeaconTracker } from '../beacon-tracker/createBeaconTracker';
+import { createMemoryBeaconSink, createSendBeaconSink } from '../beacon-tracker/beaconSinks';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+import { AUTOCOMPLETE_PREFIX } from '../utils/searchUtils.types';
+import type { BeaconEvent, ProductClickBeaconEvent, SearchBeaconEvent } from '../beacon-tracker/beacon.types';
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Answers autocomplete requests with one suggestion and searches with an empty result.
+const gbiFetch = vi.fn(async (url: string) =>
+	url.includes('/api/request')
+		? jsonResponse({ results: [{ term: 'shoes' }] })
+		: jsonResponse({ records: [], totalRecordCount: 0 })
+);
+
+function createTrackedClient() {
+	const sink = createMemoryBeaconSink();
+	const beaconTracker = createBeaconTracker({ shopTenant: 'tenant', sink });
+	const client = createGbiClient({ shopTenant: 'tenant', fetch: gbiFetch, beaconTracker });
+	return { sink, beaconTracker, client };
+}
+
+const searchOptions = { collection: 'products', area: 'Production', page: 1, pageSize: 12 };
+
+describe('search beacons', () => {
+	it('reports searches submitted from a suggestion as sayt', async () => {
+		const { sink, beaconTracker, client } = createTrackedClient();
+
+		await client.requestSearch({ ...searchOptions, query: `${AUTOCOMPLETE_PREFIX}shoes` }, false);
+		await beaconTracker.flush();
+
+		const [event] = sink.events as SearchBeaconEvent[];
+		expect(event.type).toBe('search');
+		expect(event.query).toBe('shoes');
+		expect(event.searchBeaconType.sayt).toBe(true);
+	});
+
+	it('does not track the product preview of an autocomplete request', async () => {
+		const { sink, beaconTracker, client } = createTrackedClient();
+
+		const { search } = await client.requestAutocompleteWithSearch({
+			query: 'sh',
+			collection: 'products',
+			area: 'Production',
+			mergeShopifyData: false,
+		});
+		await beaconTracker.flush();
+
+		expect(search.rawResponse.totalRecordCount).toBe(0);
+		expect(sink.events).toEqual([]);
+	});
+
+	it('does not track searches opted out with track: false', async () => {
+		const { sink, beaconTracker, client } = createTrackedClient();
+
+		await client.requestSearch({ ...searchOptions, query: 'shoes', track: false }, false);
+		await beaconTracker.flush();
+
+		expect(sink.events).toEqual([]);
+	});
+});
+
+describe('beacon batching', () => {
+	const searchDetails = {
+		searchId: 'search-1',
+		query: 'shoes',
+		page: 2,
+		pageSize: 10,
+		totalRecordCount: 30,
+		productIds: ['p1', 'p2'],
+		refinements: [],
+		searchBeaconType: { sayt: false },
+	} as never;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('sends a batch once maxBatchSize events are queued', async () => {
+		const sink = createMemoryBeaconSink();
+		const beaconTracker = createBeaconTracker({ shopTenant: 'tenant', sink, maxBatchSize: 2 });
+
+		beaconTracker.trackProductClick('p1');
+		await vi.advanceTimersByTimeAsync(0);
+		expect(sink.events).toHaveLength(0);
+
+		beaconTracker.trackProductClick('p2');
+		await vi.advanceTimersByTimeAsync(0);
+		expect(sink.events).toHaveLength(2);
+	});
+
+	it('sends queued events after flushIntervalMs', async () => {
+		const sink = createMemoryBeaconSink();
+		const beaconTracker = createBeaconTracker({ shopTenant: 'tenant', sink, flushIntervalMs: 1000 });
+
+		beaconTracker.trackProductClick('p1');
+		await vi.advanceTimersByTimeAsync(999);
+		expect(sink.events).toHaveLength(0);
+		await vi.advanceTimersByTimeAsync(1);
+		expect(sink.events).toHaveLength(1);
+	});
+
+	it('adds the common fields and attributes clicks to the search that displayed the product', async () => {
+		const sink = createMemoryBeaconSink();
+		const beaconTracker = createBeaconTracker({ shopTenant: 'tenant', sink, getVisitorId: () => 'visitor-1' });
+
+		beaconTracker.trackSearch(searchDetails);
+		beaconTracker.trackProductClick('p2');
+		beaconTracker.trackProductClick('unknown');
+		await beaconTracker.flush();
+
+		const [search, click, unattributed] = sink.events as BeaconEvent[];
+		expect(search).toMatchObject({ type: 'search', shopTenant: 'tenant', visitorId: 'visitor-1' });
+		expect(search.eventId).not.toBe(click.eventId);
+		expect((click as ProductClickBeaconEvent).attribution).toEqual({ source: 'search', searchId: 'search-1', position: 12 });
+		expect((unattributed as ProductClickBeaconEvent).attribution).toBeUndefined();
+	});
+
+	it('drops a batch the sink fails to deliver without throwing', async () => {
+		const send = vi.fn().mockRejectedValueOnce(new Error('offline')).mockResolvedValue(undefined);
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+		const beaconTracker = createBeaconTracker({ shopTenant: 'tenant', sink: { send } });
+
+		beaconTracker.trackProductClick('p1');
+		await expect(beaconTracker.flush()).resolves.toBeUndefined();
+		beaconTracker.trackProductClick('p2');
+		await beaconTracker.flush();
+
+		expect(warn).toHaveBeenCalled();
+		expect(send).toHaveBeenCalledTimes(2);
+		expect(send.mock.calls[1][0]).toHaveLength(1);
+		warn.mockRestore();
+	});
+});
+
+describe('createSendBeaconSink', () => {
+	const event = { type: 'productClick', productId: '1' } as never;
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('sends batches with sendBeacon', async () => {
+		const sendBeacon = vi.fn(() => true);
+		vi.stubGlobal('navigator', { sendBeacon });
+		const fetch = vi.fn(async () => new Response(null));
+
+		await createSendBeaconSink('/collect', fetch).send([event]);
+
+		expect(sendBeacon).toHaveBeenCalledWith('/collect', expect.any(Blob));
+		expect(fetch).not.toHaveBeenCalled();
+	});
+
+	it('falls back to a keepalive fetch when sendBeacon refuses or throws', async () => {
+		const fetch = vi.fn(async () => new Response(null));
+
+		vi.stubGlobal('navigator', { sendBeacon: () => false });
+		await createSendBeaconSink('/collect', fetch).send([event]);
+		vi.stubGlobal('navigator', {
+			sendBeacon: () => {
+				throw new TypeError('Unsupported content type');
+			},
+		});
+		await createSendBeaconSink('/collect', fetch).send([event]);
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+		expect(fetch).toHaveBeenCalledWith('/collect', expect.objectContaining({
+			method: 'POST',
+			keepalive: true,
+			body: JSON.stringify({ events: [event] }),
+		}));
+	});
+});
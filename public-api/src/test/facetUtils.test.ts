@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseFacets } from '../utils/facetUtils';
+import { encodeRefinement } from '../utils/refinementCodec';
+import { RefinementType } from '../utils/searchUtils.types';
+import type { GbiNavigation } from '../utils/searchResponse.types';
+
+const brands: GbiNavigation = {
+	name: 'brands',
+	displayName: 'Brand',
+	type: RefinementType.Value,
+	or: true,
+	refinements: [
+		{ type: RefinementType.Value, value: 'Nike', count: 12 },
+		{ type: RefinementType.Value, value: 'Black, White', count: 3 },
+	],
+};
+
+const price: GbiNavigation = {
+	name: 'price',
+	displayName: '',
+	type: RefinementType.Range,
+	or: false,
+	refinements: [
+		{ type: RefinementType.Range, low: 0, high: 50, count: 4 },
+		{ type: RefinementType.Range, low: 50, high: 100, count: 2 },
+	],
+};
+
+describe('parseFacets', () => {
+	it('builds value and range facets with counts and bounds', () => {
+		const [brandFacet, priceFacet] = parseFacets({ availableNavigation: [brands, price], selectedNavigation: [] });
+
+		expect(brandFacet).toEqual({
+			name: 'brands',
+			displayName: 'Brand',
+			type: RefinementType.Value,
+			or: true,
+			values: [
+				{ value: 'Nike', count: 12, selected: false },
+				{ value: 'Black, White', count: 3, selected: false },
+			],
+		});
+		expect(priceFacet).toMatchObject({
+			displayName: 'price',
+			type: RefinementType.Range,
+			min: 0,
+			max: 100,
+			selectedRange: undefined,
+			values: [
+				{ value: '0--to--50', low: 0, high: 50, count: 4, selected: false },
+				{ value: '50--to--100', low: 50, high: 100, count: 2, selected: false },
+			],
+		});
+	});
+
+	it('marks values selected in the response when no refinements are given', () => {
+		const selectedNavigation = [{ ...price, refinements: [price.refinements[1]] }];
+
+		const [, priceFacet] = parseFacets({ availableNavigation: [brands, price], selectedNavigation });
+
+		expect(priceFacet.values.map((value) => value.selected)).toEqual([false, true]);
+		expect(priceFacet.selectedRange).toEqual({ low: 50, high: 100 });
+	});
+
+	it('lets the given refinements decide the selection, whatever their encoding', () => {
+		const selectedNavigation = [{ ...brands, refinements: [brands.refinements[0]] }];
+
+		const [brandFacet, priceFacet] = parseFacets(
+			{ availableNavigation: [brands, price], selectedNavigation },
+			['brands:Black%2C%20White', encodeRefinement({ navigationName: 'price', low: 10, high: 20 })]
+		);
+
+		expect(brandFacet.values.map((value) => value.selected)).toEqual([false, true]);
+		expect(priceFacet.selectedRange).toEqual({ low: 10, high: 20 });
+	});
+
+	it('keeps applied values and navigations that are missing from the available navigation', () => {
+		const color: GbiNavigation = {
+			name: 'color',
+			displayName: 'Color',
+			type: RefinementType.Value,
+			or: true,
+			refinements: [{ type: RefinementType.Value, value: 'Red', count: 1 }],
+		};
+		const selectedNavigation = [{ ...brands, refinements: [{ type: RefinementType.Value, value: 'Adidas' }] }, color];
+
+		const facets = parseFacets({ availableNavigation: [brands], selectedNavigation }, ['brands:Adidas', 'color:Red']);
+
+		expect(facets.map((facet) => facet.name)).toEqual(['brands', 'color']);
+		expect(facets[0].values.at(-1)).toEqual({ value: 'Adidas', count: 0, selected: true });
+		expect(facets[1].values).toEqual([{ value: 'Red', count: 1, selected: true }]);
+	});
+
+	it('returns no facets without a response', () => {
+		expect(parseFacets(null)).toEqual([]);
+	});
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchStorefrontProducts } from '../search-requester/fetchStorefrontProducts';
+import { DEFAULT_RETRY_POLICY } from '../utils/retryPolicy';
+
+const shopifyConfig = { domain: 'shop.myshopify.com', token: 'token' };
+
+function money(amount: string) {
+	return { amount, currencyCode: 'USD' };
+}
+
+function variantNode(id: number, title: string, price: string) {
+	return {
+		id: `gid://shopify/ProductVariant/${id}`,
+		title,
+		sku: `SKU-${id}`,
+		barcode: null,
+		availableForSale: true,
+		requiresShipping: true,
+		weight: 1.5,
+		weightUnit: 'KILOGRAMS',
+		price: money(price),
+		compareAtPrice: null,
+		selectedOptions: [{ name: 'Size', value: title }],
+		quantityRule: { minimum: 1, maximum: null, increment: 1 },
+		image: null,
+		sellingPlanAllocations: { edges: [] },
+	};
+}
+
+// A Storefront product node; `handle` is what the API returns, which may be translated.
+function productNode(id: number, handle: string, variantsPage = { hasNextPage: false, endCursor: null as string | null }) {
+	return {
+		id: `gid://shopify/Product/${id}`,
+		title: `Product ${id}`,
+		handle,
+		descriptionHtml: '<p>Description</p>',
+		publishedAt: '2026-01-01T00:00:00Z',
+		createdAt: '2026-01-01T00:00:00Z',
+		vendor: 'Vendor',
+		productType: 'Shoes',
+		tags: ['new'],
+		availableForSale: true,
+		requiresSellingPlan: false,
+		options: [{ name: 'Size', optionValues: [{ name: 'S' }, { name: 'M' }] }],
+		priceRange: { minVariantPrice: money('10.0'), maxVariantPrice: money('12.5') },
+		compareAtPriceRange: { minVariantPrice: money('0.0'), maxVariantPrice: money('0.0') },
+		variants: { pageInfo: variantsPage, edges: [{ node: variantNode(id * 10 + 1, 'S', '10.0') }] },
+		images: { edges: [{ node: { url: `https://cdn/${id}.jpg`, altText: null } }] },
+		media: { edges: [] },
+		featuredImage: null,
+		sellingPlanGroups: { edges: [] },
+	};
+}
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+type StorefrontRequest = { query: string; variables: Record<string, unknown> };
+
+function requestOf(call: unknown[]): StorefrontRequest {
+	return JSON.parse((call[1] as RequestInit).body as string);
+}
+
+// Answers product queries from `catalog` (requested handle -> node) and variant queries with `moreVariants`.
+function storefrontFetch(catalog: Record<string, unknown>, moreVariants?: unknown) {
+	return vi.fn(async (_url: string, init?: RequestInit) => {
+		const { query, variables } = JSON.parse(init!.body as string) as StorefrontRequest;
+		if (query.includes('GetProductVariants')) {
+			return jsonResponse({ data: { product: { variants: moreVariants } } });
+		}
+		const data = Object.fromEntries(
+			Object.entries(variables)
+				.filter(([name]) => /^handle\d+$/.test(name))
+				.map(([name, handle]) => [name.replace('handle', 'product'), catalog[handle as string] ?? null])
+		);
+		return jsonResponse({ data });
+	});
+}
+
+describe('fetchStorefrontProducts', () => {
+	it('matches products to the requested handles even when the returned handle is translated', async () => {
+		const fetch = storefrontFetch({ shoes: productNode(1, 'chaussures'), shirt: productNode(2, 'chemise') });
+
+		const { products } = await fetchStorefrontProducts(
+			['shirt', 'missing', 'shoes', 'shirt'],
+			{ ...shopifyConfig, language: 'FR' },
+			DEFAULT_RETRY_POLICY,
+			undefined,
+			fetch
+		);
+
+		expect(products.map((product) => product?.id ?? null)).toEqual([2, null, 1, 2]);
+		expect(products[2]?.handle).toBe('chaussures');
+		const { query, variables } = requestOf(fetch.mock.calls[0]);
+		expect(query).toContain('@inContext(country: $country, language: $language)');
+		expect(variables).toMatchObject({ handle0: 'shirt', handle1: 'missing', handle2: 'shoes', language: 'FR' });
+	});
+
+	it('splits the handles into chunks of chunkSize', async () => {
+		const fetch = storefrontFetch({});
+
+		await fetchStorefrontProducts(['a', 'b', 'c', 'd', 'e'], { ...shopifyConfig, chunkSize: 2 }, DEFAULT_RETRY_POLICY, undefined, fetch);
+
+		const chunks = fetch.mock.calls.map((call) => {
+			const { variables } = requestOf(call);
+			return Object.keys(variables).filter((name) => name.startsWith('handle')).map((name) => variables[name]);
+		});
+		expect(chunks).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+	});
+
+	it('passes handles as variables, so quotes cannot change the query', async () => {
+		const fetch = storefrontFetch({});
+
+		await fetchStorefrontProducts(['tee "blue"'], shopifyConfig, DEFAULT_RETRY_POLICY, undefined, fetch);
+
+		const { query, variables } = requestOf(fetch.mock.calls[0]);
+		expect(query).not.toContain('tee');
+		expect(variables.handle0).toBe('tee "blue"');
+	});
+
+	it('maps products to the AJAX product shape', async () => {
+		const fetch = storefrontFetch({ shoes: productNode(1, 'shoes') });
+
+		const { products: [product] } = await fetchStorefrontProducts(['shoes'], shopifyConfig, DEFAULT_RETRY_POLICY, undefined, fetch);
+
+		expect(product).toMatchObject({
+			id: 1,
+			handle: 'shoes',
+			url: '/products/shoes',
+			price: 10,
+			price_min: 10,
+			price_max: 12.5,
+			price_varies: true,
+			featured_image: 'https://cdn/1.jpg',
+			options: [{ name: 'Size', position: 1, values: ['S', 'M'] }],
+		});
+		expect(product?.variants[0]).toMatchObject({
+			id: 11,
+			option1: 'S',
+			name: 'Product 1 - S',
+			price: 10,
+			weight: 1500,
+			compare_at_price: null,
+		});
+	});
+
+	it('completes the variants of products with more than one page of variants', async () => {
+		const fetch = storefrontFetch(
+			{ shoes: productNode(1, 'shoes', { hasNextPage: true, endCursor: 'cursor-1' }) },
+			{ pageInfo: { hasNextPage: false, endCursor: null }, edges: [{ node: variantNode(12, 'M', '12.5') }] }
+		);
+
+		const { products: [product] } = await fetchStorefrontProducts(['shoes'], shopifyConfig, DEFAULT_RETRY_POLICY, undefined, fetch);
+
+		expect(product?.variants.map((variant) => variant.id)).toEqual([11, 12]);
+		expect(requestOf(fetch.mock.calls[1]).variables).toMatchObject({ id: 'gid://shopify/Product/1', after: 'cursor-1' });
+	});
+});
+
+describe('fetchStorefrontProducts configuration', () => {
+	const metafield = (namespace: string, key: string, value: string) => ({ namespace, key, value, type: 'single_line_text_field' });
+
+	it('queries the configured API version', async () => {
+		const fetch = storefrontFetch({});
+
+		await fetchStorefrontProducts(['shoes'], { ...shopifyConfig, apiVersion: '2025-04' }, DEFAULT_RETRY_POLICY, undefined, fetch);
+
+		expect(fetch).toHaveBeenCalledWith('https://shop.myshopify.com/api/2025-04/graphql.json', expect.anything());
+	});
+
+	it('rejects a malformed API version', async () => {
+		await expect(fetchStorefrontProducts(['shoes'], { ...shopifyConfig, apiVersion: '2025-4' }, DEFAULT_RETRY_POLICY, undefined, vi.fn()))
+			.rejects.toThrow('Invalid Storefront API version "2025-4"');
+	});
+
+	it('loads product and variant metafields keyed by namespace and key', async () => {
+		const node = productNode(1, 'shoes');
+		const fetch = storefrontFetch({
+			shoes: {
+				...node,
+				metafields: [metafield('custom', 'badge', 'New'), null],
+				variants: { ...node.variants, edges: [{ node: { ...variantNode(11, 'S', '10.0'), metafields: [metafield('custom', 'swatch', '#000')] } }] },
+			},
+		});
+		const productMetafields = [{ namespace: 'custom', key: 'badge' }, { namespace: 'custom', key: 'size_chart' }];
+		const variantMetafields = [{ namespace: 'custom', key: 'swatch' }];
+
+		const { products: [product] } = await fetchStorefrontProducts(
+			['shoes'],
+			{ ...shopifyConfig, productMetafields, variantMetafields },
+			DEFAULT_RETRY_POLICY,
+			undefined,
+			fetch
+		);
+
+		const { query, variables } = requestOf(fetch.mock.calls[0]);
+		expect(query).toContain('metafields(identifiers: $productMetafields)');
+		expect(query).toContain('metafields(identifiers: $variantMetafields)');
+		expect(variables).toMatchObject({ productMetafields, variantMetafields });
+		expect(product?.metafields).toEqual({ 'custom.badge': metafield('custom', 'badge', 'New') });
+		expect(product?.variants[0].metafields).toEqual({ 'custom.swatch': metafield('custom', 'swatch', '#000') });
+	});
+
+	it('does not select metafields when none are configured', async () => {
+		const fetch = storefrontFetch({ shoes: productNode(1, 'shoes') });
+
+		const { products: [product] } = await fetchStorefrontProducts(['shoes'], shopifyConfig, DEFAULT_RETRY_POLICY, undefined, fetch);
+
+		const { query, variables } = requestOf(fetch.mock.calls[0]);
+		expect(query).not.toContain('metafields');
+		expect(variables).not.toHaveProperty('productMetafields');
+		expect(product?.metafields).toBeUndefined();
+		expect(product?.fragment_fields).toBeUndefined();
+	});
+
+	it('spreads custom fragments into the query and maps their fields', async () => {
+		const node = productNode(1, 'shoes');
+		const fetch = storefrontFetch({
+			shoes: {
+				...node,
+				collections: { nodes: [{ handle: 'sale' }] },
+				variants: { ...node.variants, edges: [{ node: { ...variantNode(11, 'S', '10.0'), currentlyNotInStock: true } }] },
+			},
+		});
+		const productFragment = 'fragment Badges on Product { collections(first: 5) { nodes { handle } } }';
+		const variantFragment = 'fragment Stock on ProductVariant { currentlyNotInStock }';
+
+		const { products: [product] } = await fetchStorefrontProducts(
+			['shoes'],
+			{ ...shopifyConfig, productFragment, variantFragment },
+			DEFAULT_RETRY_POLICY,
+			undefined,
+			fetch
+		);
+
+		const { query } = requestOf(fetch.mock.calls[0]);
+		expect(query).toContain('...Badges');
+		expect(query).toContain('...Stock');
+		expect(query).toContain(productFragment);
+		expect(query).toContain(variantFragment);
+		expect(product?.fragment_fields).toEqual({ collections: { nodes: [{ handle: 'sale' }] } });
+		expect(product?.variants[0].fragment_fields).toEqual({ currentlyNotInStock: true });
+	});
+
+	it('rejects a fragment on the wrong type', async () => {
+		const config = { ...shopifyConfig, productFragment: 'fragment Stock on ProductVariant { currentlyNotInStock }' };
+
+		await expect(fetchStorefrontProducts(['shoes'], config, DEFAULT_RETRY_POLICY, undefined, vi.fn()))
+			.rejects.toThrow('Invalid productFragment');
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+import { createGbiTransport, resolveGbiUrl } from '../utils/gbiTransport';
+import { AppEnv } from '../utils/searchUtils.types';
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Answers every GBI service with an empty result.
+function gbiFetch() {
+	return vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({ records: [], totalRecordCount: 0, results: [] }));
+}
+
+const searchOptions = { query: 'shoes', collection: 'products', area: 'Production', page: 1, pageSize: 12 };
+
+// Sends a search, an autocomplete and a recommendations request and returns the URLs they were sent to.
+async function requestEveryService(client: ReturnType<typeof createGbiClient>, fetch: ReturnType<typeof gbiFetch>) {
+	await client.requestSearch(searchOptions, false);
+	await client.requestAutocomplete({ query: 'sh', collection: 'products', area: 'Production' });
+	await client.requestRecommendations({ name: 'similar', collection: 'products', pageSize: 4 });
+	return fetch.mock.calls.map(([url]) => url);
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('createGbiClient', () => {
+	it('sends requests to the GroupBy cloud proxy by default', async () => {
+		const fetch = gbiFetch();
+		const client = createGbiClient({ shopTenant: 'tenant', fetch });
+
+		const [search, autocomplete, recommendation] = await requestEveryService(client, fetch);
+
+		expect(search).toBe('https://proxy.shp.groupbycloud.com/tenant/api/search');
+		expect(autocomplete).toMatch(/^https:\/\/proxy\.shp\.groupbycloud\.com\/tenant\/api\/request\?.*query=sh/);
+		expect(recommendation).toBe('https://proxy.shp.groupbycloud.com/tenant/api/recommendation');
+		expect(client.transport.appEnv).toBe(AppEnv.Production);
+	});
+
+	it('uses the development proxy outside production', () => {
+		const transport = createGbiTransport({ shopTenant: 'tenant', appEnv: 'DEVELOPMENT' as AppEnv });
+
+		expect(resolveGbiUrl(transport, 'search')).toBe('https://proxy.shp-lo.groupbycloud.com/tenant/api/search');
+	});
+
+	it('sends requests under baseUrl', async () => {
+		const fetch = gbiFetch();
+		const client = createGbiClient({ shopTenant: 'tenant', baseUrl: 'http://localhost:8080/', fetch });
+
+		const [search, autocomplete, recommendation] = await requestEveryService(client, fetch);
+
+		expect(search).toBe('http://localhost:8080/tenant/api/search');
+		expect(autocomplete).toMatch(/^http:\/\/localhost:8080\/tenant\/api\/request\?/);
+		expect(recommendation).toBe('http://localhost:8080/tenant/api/recommendation');
+	});
+
+	it('lets resolveEndpoint build every URL, over baseUrl', async () => {
+		const fetch = gbiFetch();
+		const resolveEndpoint = vi.fn(({ service }: { service: string }) => `/apps/gbi?service=${service}`);
+		const client = createGbiClient({ shopTenant: 'tenant', baseUrl: 'http://localhost:8080', resolveEndpoint, fetch });
+
+		const [search, autocomplete, recommendation] = await requestEveryService(client, fetch);
+
+		expect(search).toBe('/apps/gbi?service=search');
+		expect(autocomplete).toMatch(/^\/apps\/gbi\?service=request&.*query=sh/);
+		expect(recommendation).toBe('/apps/gbi?service=recommendation');
+		expect(resolveEndpoint).toHaveBeenCalledWith({ shopTenant: 'tenant', appEnv: AppEnv.Production, service: 'search' });
+	});
+
+	it('adds the configured headers to the SDK headers', async () => {
+		const fetch = gbiFetch();
+		const client = createGbiClient({
+			shopTenant: 'tenant',
+			fetch,
+			headers: { 'Authorization': 'Bearer token', 'X-Groupby-Customer-ID': 'other' },
+		});
+
+		await client.requestAutocomplete({ query: 'sh', collection: 'products', area: 'Production' });
+
+		expect(fetch.mock.calls[0][1]?.headers).toMatchObject({
+			'Content-Type': 'application/json',
+			'Authorization': 'Bearer token',
+			'X-Groupby-Customer-ID': 'other',
+		});
+	});
+
+	it('uses the global fetch at request time when none is given', async () => {
+		const client = createGbiClient({ shopTenant: 'tenant' });
+		const fetch = gbiFetch();
+		vi.stubGlobal('fetch', fetch);
+
+		await client.requestSearch(searchOptions, false);
+
+		expect(fetch).toHaveBeenCalledWith('https://proxy.shp.groupbycloud.com/tenant/api/search', expect.anything());
+	});
+});
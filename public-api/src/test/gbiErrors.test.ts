@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+import { fetchStorefrontProducts } from '../search-requester/fetchStorefrontProducts';
+import {
+	GbiError,
+	GbiHttpError,
+	GbiNetworkError,
+	GbiParseError,
+	GbiTimeoutError,
+	StorefrontApiError,
+	toGbiErrorInfo,
+} from '../utils/gbiErrors';
+import { resolveRetryPolicy } from '../utils/retryPolicy';
+import type { FetchFn } from '../utils/gbiTransport';
+
+const noRetry = { maxRetries: 0 };
+const searchOptions = { query: 'shoes', collection: 'products', area: 'Production', page: 1, pageSize: 12 };
+
+// Sends one request through each GBI requester of a client using `fetch`.
+const requesters: [string, (fetch: FetchFn) => Promise<unknown>][] = [
+	['requestSearch', (fetch) => createGbiClient({ shopTenant: 'tenant', fetch, retry: noRetry }).requestSearch(searchOptions, false)],
+	['requestAutocomplete', (fetch) =>
+		createGbiClient({ shopTenant: 'tenant', fetch, retry: noRetry }).requestAutocomplete({ query: 'sh', collection: 'products', area: 'Production' })],
+	['requestRecommendations', (fetch) =>
+		createGbiClient({ shopTenant: 'tenant', fetch, retry: noRetry }).requestRecommendations({ name: 'similar', collection: 'products', pageSize: 4 })],
+];
+
+// Resolves to the error the promise rejects with, failing if it resolves.
+function rejectionOf(promise: Promise<unknown>): Promise<any> {
+	return promise.then(
+		() => {
+			throw new Error('Expected the request to fail');
+		},
+		(error) => error
+	);
+}
+
+beforeEach(() => {
+	vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe.each(requesters)('%s errors', (_name, send) => {
+	it('throws a GbiHttpError with the status, endpoint and body of a non-OK response', async () => {
+		const error = await rejectionOf(send(async () => new Response('Unknown tenant', { status: 404, statusText: 'Not Found' })));
+
+		expect(error).toBeInstanceOf(GbiHttpError);
+		expect(error).toBeInstanceOf(GbiError);
+		expect(error).toMatchObject({ kind: 'http', status: 404, statusText: 'Not Found', body: 'Unknown tenant', attempts: 1 });
+		expect(error.endpoint).toMatch(/^https:\/\/proxy\.shp\.groupbycloud\.com\/tenant\/api\//);
+	});
+
+	it('throws a GbiNetworkError when no response is received', async () => {
+		const cause = new TypeError('Failed to fetch');
+
+		const error = await rejectionOf(send(async () => Promise.reject(cause)));
+
+		expect(error).toBeInstanceOf(GbiNetworkError);
+		expect(error.kind).toBe('network');
+		expect(error.cause).toBe(cause);
+	});
+
+	it('throws a GbiParseError for a malformed body', async () => {
+		const error = await rejectionOf(send(async () => new Response('<html>', { status: 200 })));
+
+		expect(error).toBeInstanceOf(GbiParseError);
+		expect(error.kind).toBe('parse');
+	});
+});
+
+describe('GbiHttpError', () => {
+	it('reports throttling after the retries are exhausted', async () => {
+		const fetch = vi.fn(async () => new Response('Slow down', { status: 429 }));
+		const client = createGbiClient({ shopTenant: 'tenant', fetch, retry: { maxRetries: 1, baseDelayMs: 0, jitter: false } });
+
+		const error = await rejectionOf(client.requestSearch(searchOptions, false));
+
+		expect(error).toBeInstanceOf(GbiHttpError);
+		expect(error).toMatchObject({ status: 429, attempts: 2 });
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('StorefrontApiError', () => {
+	const shopifyConfig = { domain: 'shop.myshopify.com', token: 'token' };
+	const retryPolicy = resolveRetryPolicy(noRetry);
+
+	it('carries the GraphQL errors of the response', async () => {
+		const errors = [{ message: 'Field "foo" does not exist', path: ['product'] }, { message: 'Throttled' }];
+		const fetch = vi.fn(async () => new Response(JSON.stringify({ errors })));
+
+		const error = await rejectionOf(fetchStorefrontProducts(['shoes'], shopifyConfig, retryPolicy, undefined, fetch));
+
+		expect(error).toBeInstanceOf(StorefrontApiError);
+		expect(error).toMatchObject({ kind: 'storefront', status: 200, errors });
+		expect(error.message).toContain('Field "foo" does not exist; Throttled');
+		expect(error.endpoint).toBe('https://shop.myshopify.com/api/2025-01/graphql.json');
+	});
+
+	it('carries the status of a non-OK response', async () => {
+		const fetch = vi.fn(async () => new Response('Invalid token', { status: 401 }));
+
+		const error = await rejectionOf(fetchStorefrontProducts(['shoes'], shopifyConfig, retryPolicy, undefined, fetch));
+
+		expect(error).toBeInstanceOf(StorefrontApiError);
+		expect(error).toMatchObject({ status: 401, errors: [] });
+		expect(error.message).toContain('Invalid token');
+	});
+});
+
+describe('toGbiErrorInfo', () => {
+	it('describes SDK errors with their kind, status and endpoint', () => {
+		expect(toGbiErrorInfo(new GbiHttpError('https://gbi/search', 503, 'Service Unavailable', '', 3))).toEqual({
+			kind: 'http',
+			name: 'GbiHttpError',
+			message: 'Request to https://gbi/search failed with status 503 Service Unavailable: ',
+			status: 503,
+			endpoint: 'https://gbi/search',
+			attempts: 3,
+		});
+		expect(toGbiErrorInfo(new GbiTimeoutError('https://gbi/search', 1000, 1))).toMatchObject({
+			kind: 'timeout',
+			name: 'GbiTimeoutError',
+		});
+	});
+
+	it('describes other thrown values as unknown', () => {
+		expect(toGbiErrorInfo(new RangeError('bad'))).toEqual({ kind: 'unknown', name: 'RangeError', message: 'bad' });
+		expect(toGbiErrorInfo('oops')).toEqual({ kind: 'unknown', name: 'Error', message: 'oops' });
+	});
+
+	it('is serializable, for storing in state', () => {
+		const info = toGbiErrorInfo(new GbiNetworkError('https://gbi/search', new TypeError('offline')));
+
+		expect(JSON.parse(JSON.stringify(info))).toEqual(info);
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createIdentityManager } from '../identity-manager/createIdentityManager';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+import { lazyLoadMore } from '../search-requester/lazyLoadMore';
+import { createGbiTransport } from '../utils/gbiTransport';
+import { AppEnv } from '../utils/searchUtils.types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('createIdentityManager', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('keeps the session while the visitor is active and renews it after the timeout', () => {
+		const identity = createIdentityManager({ storage: 'memory', sessionTimeoutMinutes: 30, getLoginId: () => undefined });
+		const first = identity.getIdentity();
+
+		vi.advanceTimersByTime(29 * MINUTE_MS);
+		expect(identity.getIdentity()).toEqual(first);
+		vi.advanceTimersByTime(29 * MINUTE_MS);
+		expect(identity.getIdentity()).toEqual(first);
+
+		vi.advanceTimersByTime(31 * MINUTE_MS);
+		const renewed = identity.getIdentity();
+		expect(renewed.visitorId).toBe(first.visitorId);
+		expect(renewed.sessionId).not.toBe(first.sessionId);
+	});
+
+	it('starts a new visitor once the visitor id expired', () => {
+		const identity = createIdentityManager({ storage: 'memory', visitorTtlDays: 1 });
+		const { visitorId } = identity.getIdentity();
+
+		vi.advanceTimersByTime(DAY_MS + 1);
+
+		expect(identity.getIdentity().visitorId).not.toBe(visitorId);
+	});
+
+	it('forgets the ids on reset and prefers an explicit login id', () => {
+		const identity = createIdentityManager({ storage: 'memory', getLoginId: () => 'customer-1' });
+		const first = identity.getIdentity();
+		expect(first.loginId).toBe('customer-1');
+
+		identity.setLoginId('customer-2');
+		identity.reset();
+		const second = identity.getIdentity();
+
+		expect(second.loginId).toBe('customer-2');
+		expect(second.visitorId).not.toBe(first.visitorId);
+		expect(second.sessionId).not.toBe(first.sessionId);
+	});
+});
+
+describe('identity on search requests', () => {
+	const searchOptions = { query: 'shoes', collection: 'products', area: 'Production' };
+
+	function sentBody(fetch: ReturnType<typeof vi.fn>) {
+		const [, init] = fetch.mock.calls[0] as [string, RequestInit];
+		return JSON.parse(init.body as string);
+	}
+
+	it('attaches the identity to searches and load-more searches', async () => {
+		const identity = createIdentityManager({ storage: 'memory', getLoginId: () => 'customer-1' });
+		const { visitorId, sessionId } = identity.getIdentity();
+		const searchFetch = vi.fn(async () => jsonResponse({ records: [], totalRecordCount: 0 }));
+		const loadMoreFetch = vi.fn(async () => jsonResponse({ records: [], totalRecordCount: 0 }));
+
+		await createGbiClient({ shopTenant: 'tenant', fetch: searchFetch, identity })
+			.requestSearch({ ...searchOptions, page: 1, pageSize: 12 }, false);
+		await lazyLoadMore('tenant', AppEnv.Production, 1, 12, searchOptions, false, undefined,
+			createGbiTransport({ shopTenant: 'tenant', fetch: loadMoreFetch, identity }));
+
+		for (const fetch of [searchFetch, loadMoreFetch]) {
+			expect(sentBody(fetch)).toMatchObject({ visitorId, sessionId, loginId: 'customer-1' });
+		}
+	});
+});
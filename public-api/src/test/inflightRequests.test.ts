@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createInflightRequests, dedupeInflight } from '../utils/inflightRequests';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	const promise = new Promise<T>((res) => {
+		resolve = res;
+	});
+	return { promise, resolve };
+}
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+const searchOptions = { query: 'shoes', collection: 'products', area: 'Production', page: 1, pageSize: 12 };
+
+describe('dedupeInflight', () => {
+	it('shares one execution between identical concurrent requests', async () => {
+		const inflight = createInflightRequests();
+		const pending = deferred<string>();
+		const run = vi.fn(() => pending.promise);
+
+		const first = dedupeInflight(inflight, 'key', undefined, run);
+		const second = dedupeInflight(inflight, 'key', undefined, run);
+		pending.resolve('result');
+
+		await expect(Promise.all([first, second])).resolves.toEqual(['result', 'result']);
+		expect(run).toHaveBeenCalledTimes(1);
+		expect(inflight.size).toBe(0);
+	});
+
+	it('cancels the shared request only once every caller aborted', async () => {
+		const inflight = createInflightRequests();
+		let sharedSignal: AbortSignal | undefined;
+		const run = vi.fn((signal: AbortSignal) => {
+			sharedSignal = signal;
+			return new Promise<string>(() => undefined);
+		});
+		const firstCaller = new AbortController();
+		const secondCaller = new AbortController();
+
+		const first = dedupeInflight(inflight, 'key', firstCaller.signal, run);
+		const second = dedupeInflight(inflight, 'key', secondCaller.signal, run);
+
+		firstCaller.abort();
+		await expect(first).rejects.toBeDefined();
+		expect(sharedSignal?.aborted).toBe(false);
+
+		secondCaller.abort();
+		await expect(second).rejects.toBeDefined();
+		expect(sharedSignal?.aborted).toBe(true);
+		expect(inflight.size).toBe(0);
+	});
+
+	it('keeps separate registries apart', async () => {
+		const run = vi.fn(async () => 'result');
+
+		await Promise.all([
+			dedupeInflight(createInflightRequests(), 'key', undefined, run),
+			dedupeInflight(createInflightRequests(), 'key', undefined, run),
+		]);
+
+		expect(run).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('requestSearch deduplication', () => {
+	const searchResult = { records: [], totalRecordCount: 0, originalRequest: { query: 'shoes' } };
+
+	it('coalesces identical concurrent searches of one client', async () => {
+		const fetch = vi.fn(async () => jsonResponse(searchResult));
+		const client = createGbiClient({ shopTenant: 'tenant', fetch });
+
+		await Promise.all([
+			client.requestSearch(searchOptions, false),
+			client.requestSearch(searchOptions, false),
+		]);
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('does not coalesce searches of clients with different fetch functions', async () => {
+		const firstFetch = vi.fn(async () => jsonResponse(searchResult));
+		const secondFetch = vi.fn(async () => jsonResponse(searchResult));
+
+		await Promise.all([
+			createGbiClient({ shopTenant: 'tenant', fetch: firstFetch }).requestSearch(searchOptions, false),
+			createGbiClient({ shopTenant: 'tenant', fetch: secondFetch }).requestSearch(searchOptions, false),
+		]);
+
+		expect(firstFetch).toHaveBeenCalledTimes(1);
+		expect(secondFetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('does not coalesce searches merged with different Shopify configs', async () => {
+		const fetch = vi.fn(async () => jsonResponse(searchResult));
+		const client = createGbiClient({ shopTenant: 'tenant', fetch });
+		const shopifyConfig = { domain: 'shop.myshopify.com', token: 'token' };
+
+		await Promise.all([
+			client.requestSearch(searchOptions, true, shopifyConfig),
+			client.requestSearch(searchOptions, true, { ...shopifyConfig, language: 'fr' }),
+		]);
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { IN_STOCK_PRE_FILTER, preFilter, serializePreFilter } from '../utils/preFilter';
+import type { PreFilter } from '../utils/preFilter';
+import { buildPreFilter } from '../utils/searchUtils';
+
+describe('preFilter', () => {
+	it('rejects invalid fields and empty value lists when building', () => {
+		expect(() => preFilter.any('brand name', ['Nike'])).toThrow('Invalid pre-filter field');
+		expect(() => preFilter.any('brands', [])).toThrow('needs at least one value');
+	});
+
+	it('rejects an ANY without values built by hand', () => {
+		const filter: PreFilter = { type: 'any', field: 'brands', values: [] };
+
+		expect(() => serializePreFilter(filter)).toThrow('needs at least one value');
+	});
+});
+
+describe('serializePreFilter', () => {
+	it('quotes and escapes values', () => {
+		expect(serializePreFilter(preFilter.any('title', ['12" "Pro"', 'a\\b'])))
+			.toBe('title:ANY("12\\" \\"Pro\\"", "a\\\\b")');
+	});
+
+	it('serializes ranges with open and exclusive bounds', () => {
+		expect(serializePreFilter(preFilter.range('price', { low: 10, high: 50, highExclusive: true })))
+			.toBe('price:IN(10, 50e)');
+		expect(serializePreFilter(preFilter.range('price', { low: 10 }))).toBe('price:IN(10, *)');
+		expect(() => serializePreFilter(preFilter.range('price', { low: NaN }))).toThrow('Invalid pre-filter bound');
+	});
+
+	it('parenthesizes nested compound filters and drops empty ones', () => {
+		const filter = preFilter.and(
+			IN_STOCK_PRE_FILTER,
+			preFilter.or(preFilter.any('brands', ['Nike']), preFilter.any('brands', ['Adidas'])),
+			preFilter.not(preFilter.any('tags', ['hidden'])),
+			preFilter.and(),
+		);
+
+		expect(serializePreFilter(filter)).toBe(
+			'availability:ANY("IN_STOCK") AND (brands:ANY("Nike") OR brands:ANY("Adidas")) AND NOT tags:ANY("hidden")'
+		);
+		expect(serializePreFilter(preFilter.and())).toBe('');
+	});
+
+	it('rejects an empty OR and a negated empty filter', () => {
+		expect(() => serializePreFilter(preFilter.or())).toThrow('at least one filter');
+		expect(() => serializePreFilter(preFilter.not(preFilter.and()))).toThrow('Cannot negate');
+	});
+});
+
+describe('buildPreFilter', () => {
+	it('keeps the collection restriction on collection pages', () => {
+		expect(buildPreFilter(undefined)).toBe('availability:ANY("IN_STOCK")');
+		expect(buildPreFilter('42', preFilter.and())).toBe('attributes.collections:ANY("42")');
+		expect(buildPreFilter('42')).toBe('attributes.collections:ANY("42") AND availability:ANY("IN_STOCK")');
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createAjaxEnricher, createStorefrontEnricher, getEnricherId } from '../utils/productEnrichers';
+import { DEFAULT_RETRY_POLICY } from '../utils/retryPolicy';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+import type { ProductRecord } from '../utils/searchUtils.types';
+
+function record(id: string, handle: string): ProductRecord {
+	return { allMeta: { id, title: handle, attributes: { handle: { text: [handle] } } } } as ProductRecord;
+}
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('getEnricherId', () => {
+	it('tells apart enricher instances sharing a name', () => {
+		const shopifyConfig = { domain: 'shop.myshopify.com', token: 'token' };
+		const defaultMerge = createStorefrontEnricher(shopifyConfig);
+		const customMerge = createStorefrontEnricher(shopifyConfig, { mergeProduct: (product) => product });
+
+		expect(getEnricherId(defaultMerge)).toMatch(/^storefront-graphql#/);
+		expect(getEnricherId(defaultMerge)).toBe(getEnricherId(defaultMerge));
+		expect(getEnricherId(customMerge)).not.toBe(getEnricherId(defaultMerge));
+	});
+
+	it('does not coalesce concurrent searches with different enricher instances', async () => {
+		const fetch = vi.fn(async () => jsonResponse({ records: [], totalRecordCount: 0 }));
+		const client = createGbiClient({ shopTenant: 'tenant', fetch });
+		const searchOptions = { query: 'shoes', collection: 'products', area: 'Production', page: 1, pageSize: 12 };
+
+		await Promise.all([
+			client.requestSearch({ ...searchOptions, enricher: createAjaxEnricher() }),
+			client.requestSearch({ ...searchOptions, enricher: createAjaxEnricher() }),
+		]);
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('createAjaxEnricher', () => {
+	it('looks products up through the context fetch with encoded handles', async () => {
+		const fetch = vi.fn(async (url: string) => jsonResponse({ id: 1, handle: url, variants: [] }));
+
+		const products = await createAjaxEnricher().enrich([record('1', 'tee/blue #1')], {
+			retryPolicy: DEFAULT_RETRY_POLICY,
+			fetch,
+		});
+
+		expect(fetch).toHaveBeenCalledWith('/products/tee%2Fblue%20%231.js', expect.anything());
+		expect(products).toHaveLength(1);
+	});
+});
+
+describe('createStorefrontEnricher', () => {
+	it('sends Storefront queries through the context fetch', async () => {
+		const fetch = vi.fn(async () => jsonResponse({ data: {} }));
+		const enricher = createStorefrontEnricher({ domain: 'shop.myshopify.com', token: 'token' });
+
+		const products = await enricher.enrich([record('1', 'tee')], { retryPolicy: DEFAULT_RETRY_POLICY, fetch });
+
+		expect(fetch).toHaveBeenCalledWith('https://shop.myshopify.com/api/2025-01/graphql.json', expect.anything());
+		expect(products).toEqual([null]);
+	});
+});
+
+describe('enricher fetch', () => {
+	const searchOptions = { query: 'shoes', collection: 'products', area: 'Production', page: 1, pageSize: 12 };
+	const gbiFetch = () => vi.fn(async (_url: string, _init?: RequestInit) => jsonResponse({ records: [record('1', 'tee')], totalRecordCount: 1 }));
+	const shopFetch = () => vi.fn(async (url: string, _init?: RequestInit) => jsonResponse({ id: 1, handle: url, variants: [] }));
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('sends product lookups through enricherFetch, never through the GBI fetch', async () => {
+		const fetch = gbiFetch();
+		const enricherFetch = shopFetch();
+		const client = createGbiClient({ shopTenant: 'tenant', fetch, enricherFetch });
+
+		await client.requestSearch(searchOptions);
+
+		expect(fetch.mock.calls.map(([url]) => url)).toEqual(['https://proxy.shp.groupbycloud.com/tenant/api/search']);
+		expect(enricherFetch.mock.calls.map(([url]) => url)).toEqual(['/products/tee.js']);
+	});
+
+	it('sends product lookups through the global fetch by default', async () => {
+		const fetch = gbiFetch();
+		const globalFetch = shopFetch();
+		vi.stubGlobal('fetch', globalFetch);
+		const client = createGbiClient({ shopTenant: 'tenant', fetch });
+
+		await client.requestSearch(searchOptions);
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(globalFetch.mock.calls.map(([url]) => url)).toEqual(['/products/tee.js']);
+	});
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+	decodeRefinement,
+	encodeRefinement,
+	isSameRefinement,
+	parseRefinements,
+	serializeRefinements,
+} from '../utils/refinementCodec';
+import { parseSearchParams } from '../utils/searchUtils';
+import { RefinementType } from '../utils/searchUtils.types';
+
+describe('refinement codec', () => {
+	it.each([
+		'Black, White',
+		"Men's 8:30 watch",
+		'10--to--20',
+		'10 --to-- 20',
+		'50% off',
+		'100%25 cotton',
+		'C:\\temp\\',
+		'back\\slash',
+		'--to--',
+	])('round-trips the value %j', (value) => {
+		const encoded = encodeRefinement({ navigationName: 'attr:size', value });
+
+		expect(decodeRefinement(encoded)).toEqual({ navigationName: 'attr:size', type: RefinementType.Value, value });
+	});
+
+	it('round-trips ranges, including negative bounds', () => {
+		expect(decodeRefinement(encodeRefinement({ navigationName: 'price', low: 10, high: 50.5 })))
+			.toEqual({ navigationName: 'price', type: RefinementType.Range, low: 10, high: 50.5 });
+		expect(decodeRefinement(encodeRefinement({ navigationName: 'temp', low: -5, high: -1 })))
+			.toEqual({ navigationName: 'temp', type: RefinementType.Range, low: -5, high: -1 });
+	});
+
+	it('keeps a value refinement that looks like a range a value', () => {
+		const encoded = encodeRefinement({ navigationName: 'size', value: '10--to--20' });
+
+		expect(encoded).toBe('size:10\\--to--20');
+		expect(isSameRefinement(encoded, 'size:10--to--20')).toBe(false);
+	});
+
+	it('decodes refinements written before escaping was introduced', () => {
+		expect(decodeRefinement('size:10:30')).toMatchObject({ navigationName: 'size', value: '10:30' });
+		expect(decodeRefinement('color:Black%2C%20White')).toMatchObject({ value: 'Black, White' });
+		expect(decodeRefinement('path:C:\\temp\\new')).toMatchObject({ value: 'C:\\temp\\new' });
+		expect(decodeRefinement('price:10--to--50')).toMatchObject({ type: RefinementType.Range, low: 10, high: 50 });
+		expect(isSameRefinement('color:Black%2C%20White', encodeRefinement({ navigationName: 'color', value: 'Black, White' })))
+			.toBe(true);
+	});
+
+	it('rejects strings without a name or value', () => {
+		expect(decodeRefinement('color')).toBeNull();
+		expect(decodeRefinement(':Black')).toBeNull();
+		expect(decodeRefinement('color:')).toBeNull();
+	});
+
+	it('splits serialized lists on unescaped commas only', () => {
+		const refinements = [
+			encodeRefinement({ navigationName: 'color', value: 'Black, White' }),
+			encodeRefinement({ navigationName: 'path', value: 'a\\' }),
+			encodeRefinement({ navigationName: 'price', low: 1, high: 2 }),
+		];
+
+		expect(parseRefinements(serializeRefinements(refinements))).toEqual(refinements);
+		expect(parseRefinements('a:1,,b:2,')).toEqual(['a:1', 'b:2']);
+	});
+});
+
+describe('parseSearchParams', () => {
+	it('keeps escaped commas inside refinement values', () => {
+		const refinement = encodeRefinement({ navigationName: 'color', value: 'Black, White' });
+		const params = new URLSearchParams({ refinement: serializeRefinements([refinement, 'size:M']) });
+
+		expect(parseSearchParams(params).refinements).toEqual([refinement, 'size:M']);
+	});
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+function record(id: string, handle: string) {
+	return { allMeta: { id, title: handle, attributes: { handle: { text: [handle] } }, variants: [{ id: `${id}1` }] } };
+}
+
+const records = [record('1', 'shoes'), record('2', 'gone'), record('3', 'shirt')];
+
+// Answers searches with `records` and AJAX product lookups for every handle but `gone`.
+const globalFetch = vi.fn(async (url: string) => {
+	if (url.includes('/api/search')) {
+		return jsonResponse({ records, totalRecordCount: records.length });
+	}
+	const handle = url.match(/products\/(.+)\.js$/)?.[1];
+	if (!handle || handle === 'gone') {
+		return new Response('Not found', { status: 404 });
+	}
+	return jsonResponse({ id: Number(handle === 'shoes' ? 1 : 3), handle, title: handle, variants: [] });
+});
+
+const searchOptions = { query: 'shoes', collection: 'products', area: 'Production', page: 1, pageSize: 12 };
+
+function idsOf(products: unknown[]) {
+	return products.map((product) => {
+		const { id, allMeta, available } = product as { id?: number; allMeta?: { id: string }; available?: boolean };
+		return allMeta && id === undefined ? `record:${allMeta.id}` : `${available === false ? 'placeholder' : 'product'}:${id}`;
+	});
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.restoreAllMocks();
+});
+
+describe('requestSearch with missing Shopify products', () => {
+	function search(missingProductPolicy?: 'drop' | 'keep-gbi-record' | 'placeholder') {
+		vi.stubGlobal('fetch', globalFetch);
+		vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+		return createGbiClient({ shopTenant: 'tenant' }).requestSearch({ ...searchOptions, missingProductPolicy });
+	}
+
+	it('drops records whose product is not found by default and reports them', async () => {
+		const { mergedProducts, mergeDiagnostics } = await search();
+
+		expect(idsOf(mergedProducts)).toEqual(['product:1', 'product:3']);
+		expect(mergeDiagnostics).toMatchObject({
+			enricher: 'ajax-json',
+			policy: 'drop',
+			records: 3,
+			returned: 2,
+			counts: { 'merged': 2, 'shopify-missing': 1, 'gbi-fallback': 0 },
+			missingHandles: ['gone'],
+		});
+		expect(mergeDiagnostics?.outcomes).toEqual([
+			{ recordId: '1', handle: 'shoes', outcome: 'merged' },
+			{ recordId: '2', handle: 'gone', outcome: 'shopify-missing' },
+			{ recordId: '3', handle: 'shirt', outcome: 'merged' },
+		]);
+	});
+
+	it('keeps the GBI record in place of a missing product', async () => {
+		const { mergedProducts, mergeDiagnostics } = await search('keep-gbi-record');
+
+		expect(idsOf(mergedProducts)).toEqual(['product:1', 'record:2', 'product:3']);
+		expect(mergeDiagnostics?.counts).toEqual({ 'merged': 2, 'shopify-missing': 0, 'gbi-fallback': 1 });
+		expect(mergeDiagnostics?.returned).toBe(3);
+	});
+
+	it('uses a placeholder in place of a missing product, so counts match totalRecordCount', async () => {
+		const { mergedProducts, mergeDiagnostics, rawResponse } = await search('placeholder');
+
+		expect(idsOf(mergedProducts)).toEqual(['product:1', 'placeholder:2', 'product:3']);
+		expect(mergedProducts[1]).toMatchObject({ handle: 'gone', url: '/products/gone', variants: [] });
+		expect(mergedProducts).toHaveLength(rawResponse.totalRecordCount);
+		expect(mergeDiagnostics?.counts).toEqual({ 'merged': 2, 'shopify-missing': 1, 'gbi-fallback': 0 });
+	});
+
+	it('applies the policy to lazyLoadMore', async () => {
+		vi.stubGlobal('fetch', globalFetch);
+		vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+		const products = await createGbiClient({ shopTenant: 'tenant' }).lazyLoadMore(0, 12, {
+			...searchOptions,
+			missingProductPolicy: 'keep-gbi-record',
+		});
+
+		expect(idsOf(products as unknown[])).toEqual(['product:1', 'record:2', 'product:3']);
+	});
+
+	it('does not report diagnostics when merging is disabled', async () => {
+		vi.stubGlobal('fetch', globalFetch);
+
+		const response = await createGbiClient({ shopTenant: 'tenant' }).requestSearch(searchOptions, false);
+
+		expect(response.mergedProducts).toHaveLength(3);
+		expect(response.mergeDiagnostics).toBeUndefined();
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchWithRetry, getBackoffDelay, parseRetryAfter, resolveRetryPolicy } from '../utils/retryPolicy';
+import { GbiNetworkError, GbiTimeoutError } from '../utils/gbiErrors';
+
+const policy = resolveRetryPolicy({ timeoutMs: 50, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10, jitter: false });
+
+// A response whose body never arrives; like a real fetch, it fails once the request signal aborts.
+function stalledResponse(signal: AbortSignal): Response {
+	const body = new ReadableStream({
+		start(controller) {
+			signal.addEventListener('abort', () => controller.error(signal.reason));
+		},
+	});
+	return new Response(body, { status: 200 });
+}
+
+describe('getBackoffDelay', () => {
+	it('doubles the delay per retry up to maxDelayMs', () => {
+		const noJitter = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, jitter: false });
+
+		expect([1, 2, 3].map((retry) => getBackoffDelay(noJitter, retry))).toEqual([100, 200, 300]);
+	});
+});
+
+describe('parseRetryAfter', () => {
+	it('reads delta-seconds and rejects malformed values', () => {
+		expect(parseRetryAfter('2')).toBe(2000);
+		expect(parseRetryAfter('soon')).toBeNull();
+		expect(parseRetryAfter(null)).toBeNull();
+	});
+});
+
+describe('fetchWithRetry', () => {
+	it('retries retryable statuses and discards the bodies of retried responses', async () => {
+		const cancel = vi.fn();
+		const fetch = vi
+			.fn()
+			.mockResolvedValueOnce(new Response(new ReadableStream({ cancel }), { status: 503 }))
+			.mockResolvedValueOnce(new Response('{"ok":true}', { status: 200 }));
+
+		const { response, attempts } = await fetchWithRetry(fetch, '/search', {}, policy);
+
+		expect(attempts).toBe(2);
+		await expect(response.json()).resolves.toEqual({ ok: true });
+		expect(cancel).toHaveBeenCalled();
+	});
+
+	it('returns a non-retryable error response for the caller to report', async () => {
+		const fetch = vi.fn(async () => new Response('missing', { status: 404 }));
+
+		const { response, attempts } = await fetchWithRetry(fetch, '/search', {}, policy);
+
+		expect(attempts).toBe(1);
+		expect(response.status).toBe(404);
+		await expect(response.text()).resolves.toBe('missing');
+	});
+
+	it('retries network failures and reports the last one', async () => {
+		const fetch = vi.fn(async () => {
+			throw new TypeError('Failed to fetch');
+		});
+
+		await expect(fetchWithRetry(fetch, '/search', {}, policy)).rejects.toBeInstanceOf(GbiNetworkError);
+		expect(fetch).toHaveBeenCalledTimes(3);
+	});
+
+	it('times out a body that stalls after the headers arrived', async () => {
+		const fetch = vi.fn(async (_url: string, init?: RequestInit) => stalledResponse(init!.signal!));
+
+		await expect(fetchWithRetry(fetch, '/search', {}, policy)).rejects.toBeInstanceOf(GbiTimeoutError);
+		expect(fetch).toHaveBeenCalledTimes(3);
+	});
+
+	it('lets the caller cancel while the body is read', async () => {
+		const caller = new AbortController();
+		const fetch = vi.fn(async (_url: string, init?: RequestInit) => {
+			setTimeout(() => caller.abort(new Error('superseded')), 5);
+			return stalledResponse(init!.signal!);
+		});
+
+		await expect(fetchWithRetry(fetch, '/search', { signal: caller.signal }, policy)).rejects.toThrow('superseded');
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+});
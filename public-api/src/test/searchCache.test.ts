@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { buildSearchCacheKey, createSearchCache } from '../utils/searchCache';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+import type { ProductEnricher } from '../utils/productEnrichers';
+import type { FetchSearchResultsArgs, SearchResult } from '../utils/searchUtils.types';
+
+function result(id: string): SearchResult {
+	return { records: [{ id }], totalRecordCount: 1 } as unknown as SearchResult;
+}
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('createSearchCache', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('expires entries after the TTL', () => {
+		const cache = createSearchCache({ ttlMs: 1000 });
+		cache.set('a', result('a'));
+
+		vi.advanceTimersByTime(999);
+		expect(cache.get('a')).toEqual(result('a'));
+		vi.advanceTimersByTime(1);
+		expect(cache.get('a')).toBeUndefined();
+		expect(cache.size).toBe(0);
+	});
+
+	it('evicts the least recently used entry', () => {
+		const cache = createSearchCache({ maxEntries: 2 });
+		cache.set('a', result('a'));
+		cache.set('b', result('b'));
+		cache.get('a');
+		cache.set('c', result('c'));
+
+		expect(cache.get('b')).toBeUndefined();
+		expect(cache.get('a')).toEqual(result('a'));
+		expect(cache.get('c')).toEqual(result('c'));
+	});
+
+	it('returns copies so callers cannot change cached entries', () => {
+		const cache = createSearchCache();
+		const value = result('a');
+		cache.set('a', value);
+		value.totalRecordCount = 2;
+		cache.get('a')!.totalRecordCount = 3;
+
+		expect(cache.get('a')?.totalRecordCount).toBe(1);
+	});
+
+	it('invalidates all entries or the matching ones', () => {
+		const cache = createSearchCache();
+		cache.set('shop1|a', result('a'));
+		cache.set('shop2|b', result('b'));
+
+		cache.invalidate((key) => key.startsWith('shop1|'));
+		expect(cache.size).toBe(1);
+		cache.invalidate();
+		expect(cache.size).toBe(0);
+	});
+});
+
+describe('buildSearchCacheKey', () => {
+	it('ignores the order of refinements', () => {
+		const color = { navigationName: 'color', type: 'Value', value: 'Black' };
+		const size = { navigationName: 'size', type: 'Value', value: 'M' };
+		const args = (refinements: unknown[]) => ({ query: 'shoes', refinements }) as unknown as FetchSearchResultsArgs;
+
+		expect(buildSearchCacheKey('/search', args([color, size]))).toBe(buildSearchCacheKey('/search', args([size, color])));
+		expect(buildSearchCacheKey('/search', args([color]))).not.toBe(buildSearchCacheKey('/other', args([color])));
+	});
+});
+
+describe('search cache in requestSearch', () => {
+	it('skips the GBI request on a hit but still enriches the records', async () => {
+		const fetch = vi.fn(async () => jsonResponse(result('1')));
+		const enrich = vi.fn(async (records: readonly unknown[]) => records.map(() => null));
+		const enricher: ProductEnricher = { name: 'test', enrich };
+		const client = createGbiClient({ shopTenant: 'tenant', fetch, searchCache: createSearchCache() });
+		const searchOptions = { query: 'shoes', collection: 'products', area: 'Production', page: 1, pageSize: 12, enricher };
+
+		await client.requestSearch(searchOptions);
+		await client.requestSearch(searchOptions);
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(enrich).toHaveBeenCalledTimes(2);
+	});
+});
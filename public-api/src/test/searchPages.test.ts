@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+import { createBeaconTracker } from '../beacon-tracker/createBeaconTracker';
+import { createMemoryBeaconSink } from '../beacon-tracker/beaconSinks';
+import { GbiHttpError } from '../utils/gbiErrors';
+import type { SearchPage } from '../search-requester/searchPages';
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Serves `total` records, or `records(page)` when given, reporting `total` as the totalRecordCount.
+function catalogFetch(total: number, records?: (page: number) => unknown[]) {
+	return vi.fn(async (_url: string, init?: RequestInit) => {
+		const { skip, pageSize } = JSON.parse(init!.body as string) as { skip: number; pageSize: number };
+		const page = skip / pageSize + 1;
+		const ids = Array.from({ length: Math.max(0, Math.min(pageSize, total - skip)) }, (_, index) => `${skip + index + 1}`);
+		return jsonResponse({
+			records: records ? records(page) : ids.map((id) => ({ allMeta: { id } })),
+			totalRecordCount: total,
+		});
+	});
+}
+
+const options = { query: 'shoes', collection: 'products', area: 'Production', pageSize: 2, mergeShopifyData: false };
+
+function idsOf(page: SearchPage | null) {
+	return page?.products.map((product) => (product as { allMeta: { id: string } }).allMeta.id);
+}
+
+describe('searchPages', () => {
+	it('stops after the page that reaches totalRecordCount', async () => {
+		const fetch = catalogFetch(5);
+		const pages = createGbiClient({ shopTenant: 'tenant', fetch }).searchPages(options);
+
+		const first = await pages.next();
+		expect(first).toMatchObject({ page: 1, hasMore: true });
+		expect(idsOf(first)).toEqual(['1', '2']);
+		await pages.next();
+		const last = await pages.next();
+		expect(last).toMatchObject({ page: 3, hasMore: false });
+		expect(idsOf(last)).toEqual(['5']);
+
+		expect(pages.hasMore).toBe(false);
+		expect(await pages.next()).toBeNull();
+		expect(fetch).toHaveBeenCalledTimes(3);
+	});
+
+	it('stops on an empty page even when totalRecordCount promises more', async () => {
+		const fetch = catalogFetch(10, (page) => (page === 1 ? [{ allMeta: { id: '1' } }] : []));
+		const pages = createGbiClient({ shopTenant: 'tenant', fetch }).searchPages(options);
+
+		await pages.next();
+		const empty = await pages.next();
+
+		expect(empty).toMatchObject({ page: 2, hasMore: false, products: [] });
+		expect(await pages.next()).toBeNull();
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('starts at startPage', async () => {
+		const fetch = catalogFetch(6);
+		const pages = createGbiClient({ shopTenant: 'tenant', fetch }).searchPages({ ...options, startPage: 2 });
+
+		expect(pages.nextPage).toBe(2);
+		expect(idsOf(await pages.next())).toEqual(['3', '4']);
+		expect(pages.nextPage).toBe(3);
+	});
+
+	it('loads a different page for each queued next() call', async () => {
+		const fetch = catalogFetch(6);
+		const pages = createGbiClient({ shopTenant: 'tenant', fetch }).searchPages(options);
+
+		const results = await Promise.all([pages.next(), pages.next(), pages.next(), pages.next()]);
+
+		expect(results.map((page) => page?.page ?? null)).toEqual([1, 2, 3, null]);
+		expect(results.map(idsOf)).toEqual([['1', '2'], ['3', '4'], ['5', '6'], undefined]);
+		expect(fetch).toHaveBeenCalledTimes(3);
+	});
+
+	it('retries the same page after a failed request', async () => {
+		const succeed = catalogFetch(4);
+		const fetch = vi.fn(succeed);
+		const pages = createGbiClient({ shopTenant: 'tenant', fetch, retry: { maxRetries: 0 } }).searchPages(options);
+		await pages.next();
+
+		fetch.mockImplementationOnce(async () => new Response('unavailable', { status: 503 }));
+		await expect(pages.next()).rejects.toBeInstanceOf(GbiHttpError);
+		expect(pages.nextPage).toBe(2);
+		expect(pages.hasMore).toBe(true);
+
+		const retried = await pages.next();
+		expect(retried?.page).toBe(2);
+		expect(idsOf(retried)).toEqual(['3', '4']);
+	});
+
+	it('can be consumed with for await', async () => {
+		const pages = createGbiClient({ shopTenant: 'tenant', fetch: catalogFetch(5) }).searchPages(options);
+
+		const loaded: SearchPage[] = [];
+		for await (const page of pages) {
+			loaded.push(page);
+		}
+
+		expect(loaded.map((page) => page.page)).toEqual([1, 2, 3]);
+		expect(loaded.flatMap((page) => idsOf(page))).toEqual(['1', '2', '3', '4', '5']);
+	});
+
+	it('only tracks the first page as a search unless track is set', async () => {
+		const sink = createMemoryBeaconSink();
+		const beaconTracker = createBeaconTracker({ shopTenant: 'tenant', sink });
+		const client = createGbiClient({ shopTenant: 'tenant', fetch: catalogFetch(5), beaconTracker });
+
+		for await (const _page of client.searchPages(options)) {
+			// Load every page.
+		}
+		await beaconTracker.flush();
+		expect(sink.events).toEqual([expect.objectContaining({ type: 'search', page: 1 })]);
+
+		for await (const _page of client.searchPages({ ...options, track: true })) {
+			// Load every page.
+		}
+		await beaconTracker.flush();
+		expect(sink.events).toHaveLength(4);
+	});
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { reportSearchResponseDrift, validateSearchResponse } from '../utils/searchResponseValidator';
+import { setDebugLogging } from '../utils/debugLogger';
+
+function validResponse(): Record<string, any> {
+	return {
+		totalRecordCount: 1,
+		records: [
+			{
+				allMeta: {
+					id: '1',
+					attributes: { handle: 'shoes' },
+					variants: [{ id: '11' }],
+				},
+			},
+		],
+		availableNavigation: [{ name: 'brands', refinements: [] }],
+		selectedNavigation: [],
+		pageInfo: { recordStart: 1, recordEnd: 1 },
+		didYouMean: [],
+		redirect: '/pages/sale',
+	};
+}
+
+afterEach(() => {
+	setDebugLogging(false);
+	vi.restoreAllMocks();
+});
+
+describe('validateSearchResponse', () => {
+	it('reports no issues for a valid response', () => {
+		expect(validateSearchResponse(validResponse())).toEqual([]);
+	});
+
+	it('accepts a response without the optional fields', () => {
+		const { availableNavigation, selectedNavigation, pageInfo, didYouMean, redirect, ...required } = validResponse();
+		delete required.records[0].allMeta.variants;
+
+		expect(validateSearchResponse(required)).toEqual([]);
+	});
+
+	it('ignores unknown extra fields', () => {
+		const response = validResponse();
+		response.template = { name: 'default' };
+		response.biasingProfile = 'boost';
+		response.records[0].collection = 'products';
+		response.records[0].allMeta.score = 0.5;
+
+		expect(validateSearchResponse(response)).toEqual([]);
+	});
+
+	it('reports missing fields', () => {
+		const response = validResponse();
+		delete response.totalRecordCount;
+		delete response.records[0].allMeta.attributes;
+		response.records[0].allMeta.variants = [{}];
+
+		expect(validateSearchResponse(response)).toEqual([
+			'records[0].allMeta.attributes is missing',
+			'records[0].allMeta.variants[0].id is missing',
+			'totalRecordCount is not a number',
+		]);
+	});
+
+	it('reports mistyped fields', () => {
+		const response = validResponse();
+		response.records[0].allMeta.id = 1;
+		response.availableNavigation = [{ name: 'brands', refinements: {} }];
+		response.pageInfo = { recordStart: '1', recordEnd: 1 };
+		response.didYouMean = 'shoe';
+
+		expect(validateSearchResponse(response)).toEqual([
+			'records[0].allMeta.id is not a string',
+			'availableNavigation[0].refinements is not an array',
+			'pageInfo is malformed',
+			'didYouMean is not an array',
+		]);
+	});
+
+	it('rejects a response that is not an object', () => {
+		expect(validateSearchResponse(null)).toEqual(['response is not an object']);
+		expect(validateSearchResponse([])).toEqual(['response is not an object']);
+	});
+
+	it('caps the number of issues reported', () => {
+		const response = validResponse();
+		response.records = Array.from({ length: 30 }, () => ({}));
+
+		expect(validateSearchResponse(response)).toHaveLength(20);
+	});
+});
+
+describe('reportSearchResponseDrift', () => {
+	it('does not validate or log outside debug mode', () => {
+		const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+		reportSearchResponseDrift({}, 'https://gbi/search');
+
+		expect(log).not.toHaveBeenCalled();
+	});
+
+	it('logs the issues of a drifted response in debug mode', () => {
+		const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+		setDebugLogging(true);
+
+		reportSearchResponseDrift({ records: [] }, 'https://gbi/search');
+
+		expect(log).toHaveBeenCalledWith(
+			expect.stringContaining('Search response from https://gbi/search does not match the expected shape'),
+			expect.any(String),
+			['totalRecordCount is not a number']
+		);
+	});
+
+	it('stays silent for a valid response in debug mode', () => {
+		const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+		setDebugLogging(true);
+
+		reportSearchResponseDrift(validResponse(), 'https://gbi/search');
+
+		expect(log).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildSearchArguments, transformProductsForVariantRelevancy } from '../utils/searchUtils';
+import { DEFAULT_RETRY_POLICY } from '../utils/retryPolicy';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+import type { ProductEnricher } from '../utils/productEnrichers';
+import type { Biasing, ProductDetail, ProductRecord, SearchProduct } from '../utils/searchUtils.types';
+
+function record(id: string, handle: string): ProductRecord {
+	return { allMeta: { id, title: `Title ${id}`, attributes: { handle: { text: [handle] } } } } as ProductRecord;
+}
+
+function product(id: number): ProductDetail {
+	return { id, handle: `handle-${id}`, variants: [] } as unknown as ProductDetail;
+}
+
+// An enricher returning `products`, one entry per record.
+function enricherOf(products: (SearchProduct | null)[]): ProductEnricher {
+	return { name: 'test', enrich: vi.fn(async () => products) };
+}
+
+const context = { retryPolicy: DEFAULT_RETRY_POLICY, fetch: vi.fn() };
+const records = [record('1', 'shoes'), record('2', 'gone'), record('3', 'shirt')];
+const enriched = [product(1), null, product(3)];
+
+describe('transformProductsForVariantRelevancy', () => {
+	it('drops records without a product by default', async () => {
+		const { products, diagnostics } = await transformProductsForVariantRelevancy({ records }, enricherOf(enriched), context);
+
+		expect(products).toEqual([product(1), product(3)]);
+		expect(diagnostics).toEqual({
+			enricher: 'test',
+			policy: 'drop',
+			records: 3,
+			returned: 2,
+			counts: { 'merged': 2, 'shopify-missing': 1, 'gbi-fallback': 0 },
+			missingHandles: ['gone'],
+			outcomes: [
+				{ recordId: '1', handle: 'shoes', outcome: 'merged' },
+				{ recordId: '2', handle: 'gone', outcome: 'shopify-missing' },
+				{ recordId: '3', handle: 'shirt', outcome: 'merged' },
+			],
+		});
+	});
+
+	it('keeps the GBI record of records without a product', async () => {
+		const { products, diagnostics } = await transformProductsForVariantRelevancy(
+			{ records },
+			enricherOf(enriched),
+			context,
+			'keep-gbi-record'
+		);
+
+		expect(products).toEqual([product(1), records[1], product(3)]);
+		expect(diagnostics).toMatchObject({
+			policy: 'keep-gbi-record',
+			returned: 3,
+			counts: { 'merged': 2, 'shopify-missing': 0, 'gbi-fallback': 1 },
+			missingHandles: ['gone'],
+		});
+		expect(diagnostics.outcomes[1]).toEqual({ recordId: '2', handle: 'gone', outcome: 'gbi-fallback' });
+	});
+
+	it('replaces records without a product by a placeholder', async () => {
+		const { products, diagnostics } = await transformProductsForVariantRelevancy(
+			{ records },
+			enricherOf(enriched),
+			context,
+			'placeholder'
+		);
+
+		expect(products).toHaveLength(3);
+		expect(products[1]).toMatchObject({
+			id: 2,
+			title: 'Title 2',
+			handle: 'gone',
+			url: '/products/gone',
+			available: false,
+			variants: [],
+		});
+		expect(diagnostics).toMatchObject({
+			policy: 'placeholder',
+			returned: 3,
+			counts: { 'merged': 2, 'shopify-missing': 1, 'gbi-fallback': 0 },
+		});
+	});
+
+	it('passes the records and context to the enricher', async () => {
+		const enricher = enricherOf(enriched);
+
+		await transformProductsForVariantRelevancy({ records }, enricher, context);
+
+		expect(enricher.enrich).toHaveBeenCalledWith(records, context);
+	});
+
+	it('does not call the enricher without records', async () => {
+		const enricher = enricherOf([]);
+
+		const { products, diagnostics } = await transformProductsForVariantRelevancy({ records: [] }, enricher, context);
+
+		expect(enricher.enrich).not.toHaveBeenCalled();
+		expect(products).toEqual([]);
+		expect(diagnostics.counts).toEqual({ 'merged': 0, 'shopify-missing': 0, 'gbi-fallback': 0 });
+	});
+
+	it('rejects enrichers that do not return one entry per record', async () => {
+		await expect(transformProductsForVariantRelevancy({ records }, enricherOf([product(1)]), context))
+			.rejects.toThrow('Product enricher "test" returned 1 products for 3 records');
+	});
+});
+
+describe('buildSearchArguments', () => {
+	const options = { query: 'shoes', collection: 'products', area: 'Production', page: 2, pageSize: 12, sortBy: 'relevance', refinements: [] };
+	const biasing: Biasing = {
+		bringToTop: ['42'],
+		augmentBiases: true,
+		influence: 5,
+		biases: [{ name: 'brand', content: 'Nike', strength: 'Strong_Increase' }],
+	};
+
+	it('sends the given fields, dynamic facet flag and biasing', () => {
+		const fields = ['id', 'title'];
+
+		const args = buildSearchArguments({ ...options, fields, dynamicFacet: true, biasing });
+
+		expect(args).toMatchObject({ fields: ['id', 'title'], dynamicFacet: true, biasing, skip: 12 });
+		expect(args.fields).not.toBe(fields);
+	});
+
+	it('requests all fields without dynamic navigation or biasing when none are given', () => {
+		const args = buildSearchArguments(options);
+
+		expect(args.fields).toEqual(['*']);
+		expect(args.dynamicFacet).toBe(false);
+		expect(args).not.toHaveProperty('biasing');
+	});
+
+	it('requests all fields for an empty field list', () => {
+		expect(buildSearchArguments({ ...options, fields: [] }).fields).toEqual(['*']);
+	});
+
+	it('puts the options in the search request body', async () => {
+		const fetch = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({ records: [], totalRecordCount: 0 })));
+		const client = createGbiClient({ shopTenant: 'tenant', fetch });
+		const searchOptions = { query: 'shoes', collection: 'products', area: 'Production', page: 1, pageSize: 12 };
+
+		await client.requestSearch({ ...searchOptions, fields: ['id'], dynamicFacet: true, biasing }, false);
+		await client.requestSearch(searchOptions, false);
+
+		const [withOptions, withoutOptions] = fetch.mock.calls.map(([, init]) => JSON.parse(init!.body as string));
+		expect(withOptions).toMatchObject({ fields: ['id'], dynamicFacet: true, biasing });
+		expect(withoutOptions).toMatchObject({ fields: ['*'], dynamicFacet: false });
+		expect(withoutOptions).not.toHaveProperty('biasing');
+	});
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSortCatalog } from '../utils/sortCatalog';
+import type { SortOption } from '../utils/sortCatalog';
+import { createGbiClient } from '../gbi-client/createGbiClient';
+import { SortOrder } from '../utils/searchUtils.types';
+
+const options: SortOption[] = [
+	{ id: 'relevance', label: 'Best match', sorts: [] },
+	{
+		id: 'best-then-newest',
+		label: 'Best match then newest',
+		sorts: [
+			{ field: '_relevance', order: SortOrder.Descending },
+			{ field: 'published_at', order: SortOrder.Descending },
+		],
+	},
+];
+
+function jsonResponse(body: unknown): Response {
+	return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('createSortCatalog', () => {
+	it('resolves unknown or missing ids to the default option', () => {
+		const catalog = createSortCatalog(options, 'best-then-newest');
+
+		expect(catalog.get('relevance')).toBe(options[0]);
+		expect(catalog.get('price-asc')).toBeUndefined();
+		expect(catalog.resolve('price-asc').id).toBe('best-then-newest');
+		expect(catalog.resolve(null).id).toBe('best-then-newest');
+		expect(createSortCatalog(options).defaultId).toBe('relevance');
+	});
+
+	it('rejects empty catalogs, duplicate ids and an unknown default', () => {
+		expect(() => createSortCatalog([])).toThrow('at least one option');
+		expect(() => createSortCatalog([options[0], options[0]])).toThrow('Duplicate sort option id "relevance"');
+		expect(() => createSortCatalog(options, 'newest')).toThrow('Unknown default sort option "newest"');
+	});
+
+	it('sends the sorts of the selected option with searches', async () => {
+		const fetch = vi.fn(async () => jsonResponse({ records: [], totalRecordCount: 0 }));
+		const client = createGbiClient({ shopTenant: 'tenant', fetch, sortCatalog: createSortCatalog(options) });
+		const searchOptions = { query: 'shoes', collection: 'products', area: 'Production', page: 1, pageSize: 12 };
+
+		await client.requestSearch({ ...searchOptions, sortBy: 'best-then-newest' }, false);
+		await client.requestSearch({ ...searchOptions, sortBy: 'price-asc' }, false);
+
+		const sentSorts = fetch.mock.calls.map((call) => JSON.parse((call as unknown as [string, RequestInit])[1].body as string).sorts);
+		expect(sentSorts).toEqual([options[1].sorts, []]);
+	});
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createCallbackConsent, createShopifyConsent } from '../utils/trackingConsent';
+import type { TrackingConsent } from '../utils/trackingConsent';
+import { createBeaconTracker } from '../beacon-tracker/createBeaconTracker';
+import { createMemoryBeaconSink } from '../beacon-tracker/beaconSinks';
+import { createIdentityManager } from '../identity-manager/createIdentityManager';
+
+const granted: TrackingConsent = { analytics: true, preferences: true };
+const refused: TrackingConsent = { analytics: false, preferences: false };
+
+// A consent provider whose answer the test changes with `set`.
+function createTestConsent(initial?: TrackingConsent) {
+	let current = initial;
+	const consent = createCallbackConsent(() => current);
+	return {
+		consent,
+		set(next: TrackingConsent | undefined) {
+			current = next;
+			consent.refresh();
+		},
+	};
+}
+
+function createMemoryStorage(): Storage {
+	const items = new Map<string, string>();
+	return {
+		getItem: (key) => items.get(key) ?? null,
+		setItem: (key, value) => void items.set(key, value),
+		removeItem: (key) => void items.delete(key),
+		clear: () => items.clear(),
+		key: (index) => [...items.keys()][index] ?? null,
+		get length() {
+			return items.size;
+		},
+	};
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('beacon consent', () => {
+	it('holds events while consent is pending and sends them once analytics is allowed', async () => {
+		const { consent, set } = createTestConsent();
+		const sink = createMemoryBeaconSink();
+		const beaconTracker = createBeaconTracker({ shopTenant: 'tenant', sink, consent });
+
+		beaconTracker.trackProductClick('p1');
+		await beaconTracker.flush();
+		expect(sink.events).toHaveLength(0);
+
+		set(granted);
+		await vi.waitFor(() => expect(sink.events).toHaveLength(1));
+	});
+
+	it('discards queued events when consent is refused and drops later ones', async () => {
+		const { consent, set } = createTestConsent();
+		const sink = createMemoryBeaconSink();
+		const beaconTracker = createBeaconTracker({ shopTenant: 'tenant', sink, consent });
+
+		beaconTracker.trackProductClick('p1');
+		set(refused);
+		beaconTracker.trackProductClick('p2');
+		set(granted);
+		await beaconTracker.flush();
+
+		expect(sink.events).toHaveLength(0);
+	});
+
+	it('drops events tracked before the shopper decided with pendingConsent: drop', async () => {
+		const { consent, set } = createTestConsent();
+		const sink = createMemoryBeaconSink();
+		const beaconTracker = createBeaconTracker({ shopTenant: 'tenant', sink, consent, pendingConsent: 'drop' });
+
+		beaconTracker.trackProductClick('p1');
+		set(granted);
+		beaconTracker.trackProductClick('p2');
+		await beaconTracker.flush();
+
+		expect(sink.events).toEqual([expect.objectContaining({ productId: 'p2' })]);
+	});
+});
+
+describe('identity consent', () => {
+	it('keeps ids in memory until preferences consent and persists the same ids afterwards', () => {
+		const localStorage = createMemoryStorage();
+		vi.stubGlobal('localStorage', localStorage);
+		const { consent, set } = createTestConsent();
+		const identity = createIdentityManager({ storage: 'localStorage', consent });
+
+		const { visitorId } = identity.getIdentity();
+		expect(localStorage.length).toBe(0);
+
+		set(granted);
+		expect(JSON.parse(localStorage.getItem('gbi_visitor_id') ?? '{}').id).toBe(visitorId);
+		expect(identity.getIdentity().visitorId).toBe(visitorId);
+	});
+
+	it('removes persisted ids when consent is withdrawn but keeps them for the page', () => {
+		const localStorage = createMemoryStorage();
+		vi.stubGlobal('localStorage', localStorage);
+		const { consent, set } = createTestConsent(granted);
+		const identity = createIdentityManager({ storage: 'localStorage', consent });
+		const { visitorId } = identity.getIdentity();
+		expect(localStorage.length).toBe(2);
+
+		set({ analytics: true, preferences: false });
+
+		expect(localStorage.length).toBe(0);
+		expect(identity.getIdentity().visitorId).toBe(visitorId);
+		expect(localStorage.length).toBe(0);
+	});
+});
+
+describe('createShopifyConsent', () => {
+	function stubCustomerPrivacy(analytics: boolean, answered: boolean) {
+		vi.stubGlobal('Shopify', {
+			customerPrivacy: {
+				analyticsProcessingAllowed: () => analytics,
+				preferencesProcessingAllowed: () => false,
+				shouldShowBanner: () => true,
+				currentVisitorConsent: () => ({ analytics: answered ? (analytics ? 'yes' : 'no') : '' }),
+			},
+		});
+	}
+
+	it('reads the Customer Privacy API and reports an unanswered banner as pending', () => {
+		stubCustomerPrivacy(false, false);
+		expect(createShopifyConsent().getConsent()).toBeUndefined();
+
+		stubCustomerPrivacy(false, true);
+		expect(createShopifyConsent().getConsent()).toEqual({ analytics: false, preferences: false });
+
+		stubCustomerPrivacy(true, true);
+		expect(createShopifyConsent().getConsent()).toEqual({ analytics: true, preferences: false });
+	});
+
+	it('is pending until the Customer Privacy API is loaded', () => {
+		let loaded: ((error?: unknown) => void) | undefined;
+		const shopify: Record<string, unknown> = {
+			loadFeatures: (_features: unknown, callback: (error?: unknown) => void) => {
+				loaded = callback;
+			},
+		};
+		vi.stubGlobal('Shopify', shopify);
+		const consent = createShopifyConsent();
+		const listener = vi.fn();
+		consent.subscribe(listener);
+		expect(consent.getConsent()).toBeUndefined();
+
+		shopify.customerPrivacy = {
+			analyticsProcessingAllowed: () => true,
+			preferencesProcessingAllowed: () => true,
+		};
+		loaded?.();
+
+		expect(listener).toHaveBeenCalledWith(granted);
+	});
+});
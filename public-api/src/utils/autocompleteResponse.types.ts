@@ -0,0 +1,95 @@
+import type { SearchProduct } from './searchUtils.types';
+
+/**
+ * A single suggestion as returned by the GBI Autocomplete API.
+ * Plain query suggestions only carry `term`; navigation suggestions also name the navigation they refine
+ * in `navigationName`, which is what tells the two apart.
+ */
+export interface GbiAutocompleteResult {
+  term: string;
+  /**
+   * The kind of suggestion as configured for the autocomplete area. Passed through as-is; the SDK does not rely on it.
+   */
+  type?: string;
+  navigationName?: string;
+  displayName?: string;
+  /** Additional fields depending on the autocomplete configuration */
+  [key: string]: unknown;
+}
+
+/**
+ * The raw response of the GBI Autocomplete API.
+ */
+export interface GbiAutocompleteResponse {
+  id?: string;
+  query?: string;
+  results?: GbiAutocompleteResult[];
+  [key: string]: unknown;
+}
+
+/**
+ * A part of a suggestion's text. Segments concatenate to the full text; the segment matching
+ * the typed prefix is flagged as `highlighted`.
+ */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * A suggested search query.
+ */
+export interface QuerySuggestion {
+  type: 'query';
+  term: string;
+  segments: HighlightSegment[];
+}
+
+/**
+ * A suggested navigation value, such as a category or a brand.
+ */
+export interface NavigationSuggestion {
+  type: 'navigation';
+  term: string;
+  /**
+   * The navigation (field) the value belongs to, e.g. `brands`.
+   */
+  navigationName: string;
+  displayName?: string;
+  segments: HighlightSegment[];
+}
+
+/**
+ * A suggested product, taken from the search that accompanies the autocomplete request.
+ */
+export interface ProductSuggestion {
+  type: 'product';
+  title: string;
+  handle?: string;
+  product: SearchProduct;
+  segments: HighlightSegment[];
+}
+
+export type AutocompleteSuggestion = QuerySuggestion | NavigationSuggestion | ProductSuggestion;
+
+/**
+ * A normalized autocomplete response, split into the sections of a typical search dropdown.
+ */
+export interface AutocompleteResponse {
+  id?: string;
+  /**
+   * Id the SDK generated for the request, reported when a suggestion is selected (see `BeaconTracker`).
+   */
+  autocompleteId?: string;
+  /**
+   * The query the suggestions were requested (and highlighted) for.
+   */
+  query: string;
+  querySuggestions: QuerySuggestion[];
+  navigationSuggestions: NavigationSuggestion[];
+  productSuggestions: ProductSuggestion[];
+  /**
+   * The raw API response, for fields not covered by the normalized model.
+   */
+  raw: GbiAutocompleteResponse;
+}
@@ -1,45 +1,37 @@
-import { AppEnv } from './searchUtils.types';
-
-/**
- * Handles the fetch response by throwing an error if the response is not OK,
- * otherwise parsing and returning the JSON data.
- *
- * @param response - The fetch Response object.
- * @returns The parsed JSON data.
- *
- * @throws Will throw an error if the response is not ok.
- */
-async function handleFetchResponse(response: Response): Promise<any> {
-  if (!response.ok) {
-    const errorMessage = await response.text();
-    throw new Error(`Failed to fetch autocomplete results: ${errorMessage}`);
-  }
-  return response.json();
-}
+import { buildGbiRequestKey, requestGbiJson } from './gbiTransport';
+import { dedupeInflight } from './inflightRequests';
+import type { GbiTransport } from './gbiTransport';
+import type { SearchProduct } from './searchUtils.types';
+import type {
+  AutocompleteResponse,
+  GbiAutocompleteResponse,
+  HighlightSegment,
+  NavigationSuggestion,
+  ProductSuggestion,
+  QuerySuggestion,
+} from './autocompleteResponse.types';
 
 /**
  * Fetches autocomplete suggestions from the GBI Autocomplete API.
+ * Concurrent identical requests share a single network call unless the transport disables deduplication.
  *
- * @param shopTenant - The shop tenant identifier.
- * @param appEnv - The application environment.
+ * @param transport - The transport providing the endpoint and fetch implementation.
  * @param options - The autocomplete request options.
  * @returns A promise that resolves to the autocomplete results.
  *
- * @throws Will throw an error if the network response is not ok.
+ * @throws {GbiNetworkError | GbiHttpError | GbiParseError} If the request fails (see `requestGbiJson`).
  */
 export async function fetchAutocompleteResults(
-  shopTenant: string,
-  appEnv: AppEnv,
+  transport: GbiTransport,
   options: {
     query: string;
     collection: string;
     area: string;
     searchItems?: number;
     dataset?: string;
+    signal?: AbortSignal;
   }
-): Promise<any> {
-  const baseUrl = `https://${appEnv === AppEnv.Production ? AppEnv.ProxyProd : AppEnv.ProxyDev}.groupbycloud.com/${shopTenant}/api/request`;
-  
+): Promise<GbiAutocompleteResponse> {
   // Build URL parameters
   const urlParams = new URLSearchParams({
     collection: options.collection,
@@ -52,24 +44,117 @@ export async function fetchAutocompleteResults(
   if (options.dataset) {
     urlParams.append('dataset', options.dataset);
   }
-  
-  const endpoint = `${baseUrl}?${urlParams.toString()}`;
-  
+
   const headers = {
     'Content-Type': 'application/json',
     'X-Application-Type': 'autocomplete',
-    'X-Groupby-Customer-ID': shopTenant
+    'X-Groupby-Customer-ID': transport.shopTenant
   };
 
-  try {
-    const response = await fetch(endpoint, {
-      method: 'GET',
-      headers
-    });
+  const send = (signal?: AbortSignal) => requestGbiJson<GbiAutocompleteResponse>(transport, 'request', {
+    method: 'GET',
+    headers,
+    params: urlParams,
+    signal
+  });
 
-    return handleFetchResponse(response);
+  try {
+    if (!transport.dedupeRequests) {
+      return await send(options.signal);
+    }
+    const requestKey = buildGbiRequestKey(transport, 'request', urlParams.toString());
+    return await dedupeInflight(transport.inflightRequests, requestKey, options.signal, send);
   } catch (error) {
-    console.error('Error fetching autocomplete results:', error);
+    if (!options.signal?.aborted) {
+      console.error('Error fetching autocomplete results:', error);
+    }
     throw error;
   }
 }
+
+/**
+ * Splits a suggestion into segments, highlighting the part that matches the typed query.
+ * The match is case-insensitive and must start at the beginning of a word.
+ *
+ * @param text - The suggestion text.
+ * @param query - The typed query.
+ * @returns The segments; a single non-highlighted segment when nothing matches.
+ *
+ * @example
+ * highlightSuggestion("Running Shoes", "sh");
+ * // [{ text: "Running ", highlighted: false }, { text: "Sh", highlighted: true }, { text: "oes", highlighted: false }]
+ */
+export function highlightSuggestion(text: string, query: string): HighlightSegment[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return [{ text, highlighted: false }];
+  }
+
+  const haystack = text.toLowerCase();
+  let index = haystack.indexOf(needle);
+  while (index > 0 && /\w/.test(haystack[index - 1])) {
+    index = haystack.indexOf(needle, index + 1);
+  }
+  if (index === -1) {
+    return [{ text, highlighted: false }];
+  }
+
+  const end = index + needle.length;
+  return [
+    { text: text.slice(0, index), highlighted: false },
+    { text: text.slice(index, end), highlighted: true },
+    { text: text.slice(end), highlighted: false },
+  ].filter(segment => segment.text.length > 0);
+}
+
+function toProductSuggestion(product: SearchProduct, query: string): ProductSuggestion {
+  const title = 'title' in product ? product.title : product.allMeta?.title ?? '';
+  const handle = 'handle' in product ? product.handle : product.allMeta?.attributes?.handle?.text?.[0];
+  return { type: 'product', title, handle, product, segments: highlightSuggestion(title, query) };
+}
+
+/**
+ * Normalizes a raw autocomplete response into query, navigation and product sections.
+ * A result is a navigation suggestion when it names the navigation it refines (`navigationName`);
+ * its `type` is not interpreted, as the values it takes depend on the autocomplete configuration.
+ *
+ * @param raw - The raw GBI Autocomplete API response.
+ * @param query - The query the suggestions were requested for (used for highlighting).
+ * @param products - Optional products to expose as product suggestions (e.g. from `requestAutocompleteWithSearch`).
+ * @returns The normalized autocomplete response.
+ */
+export function normalizeAutocompleteResponse(
+  raw: GbiAutocompleteResponse | null | undefined,
+  query: string,
+  products: SearchProduct[] = []
+): AutocompleteResponse {
+  const querySuggestions: QuerySuggestion[] = [];
+  const navigationSuggestions: NavigationSuggestion[] = [];
+  const productSuggestions: ProductSuggestion[] = products.map(product => toProductSuggestion(product, query));
+
+  for (const result of raw?.results ?? []) {
+    if (typeof result?.term !== 'string' || !result.term) continue;
+    const segments = highlightSuggestion(result.term, query);
+
+    if (typeof result.navigationName === 'string' && result.navigationName) {
+      navigationSuggestions.push({
+        type: 'navigation',
+        term: result.term,
+        navigationName: result.navigationName,
+        displayName: result.displayName,
+        segments,
+      });
+    } else {
+      querySuggestions.push({ type: 'query', term: result.term, segments });
+    }
+  }
+
+  return {
+    id: raw?.id,
+    query,
+    querySuggestions,
+    navigationSuggestions,
+    productSuggestions,
+    raw: raw ?? {},
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Maps items through an async function, running at most `limit` calls at a time.
+ * Results keep the order of `items`. After the first failure no further calls are started
+ * and the returned promise rejects with that error.
+ *
+ * @param items - The items to map.
+ * @param limit - The maximum number of concurrent calls (at least 1).
+ * @param fn - The async mapping function.
+ * @returns The mapped results, in input order.
+ *
+ * @example
+ * const pages = await mapWithConcurrency(chunks, 3, (chunk) => fetchChunk(chunk));
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,34 @@
+export interface SDKConfig {
+  debug?: boolean;
+}
+
+// Global configuration for public-api debug logging.
+// Clients (or the State Driver managers) can toggle this via `setDebugLogging`.
+export const sdkConfig: SDKConfig = {
+  debug: false,
+};
+
+/**
+ * Enables or disables public-api debug logging.
+ *
+ * @param enabled - Whether debug messages should be written to the console.
+ */
+export function setDebugLogging(enabled: boolean): void {
+  sdkConfig.debug = enabled;
+}
+
+/**
+ * Centralized debug logger.
+ *
+ * @param moduleName - Name of the module or area logging the message (e.g. 'Transport', 'Storefront').
+ * @param message - The message to log.
+ * @param args - Additional values to log.
+ */
+export function debugLog(moduleName: string, message: string, ...args: unknown[]): void {
+  if (!sdkConfig.debug) return;
+  console.log(
+    `%c[Public API SDK - ${moduleName}]: ${message}`,
+    'color: teal; font-weight: bold; font-size: 13px;',
+    ...args
+  );
+}
@@ -0,0 +1,177 @@
+import { RefinementType } from './searchUtils.types';
+import type { SearchResult } from './searchUtils.types';
+import type { GbiNavigation, GbiRefinement } from './searchResponse.types';
+import { decodeRefinement, encodeRefinement } from './refinementCodec';
+import type { DecodedRefinement } from './refinementCodec';
+
+const RANGE_SEPARATOR = '--to--';
+
+/**
+ * A selectable value of a facet.
+ */
+export interface FacetValue {
+  /**
+   * The refinement value. For range facets this is `low--to--high`, as written by `applyRange`.
+   */
+  value: string;
+  count: number;
+  selected: boolean;
+  /**
+   * Bounds of the bucket (range facets only).
+   */
+  low?: number;
+  high?: number;
+}
+
+/**
+ * A facet built from a GBI navigation, ready to render as a filter.
+ */
+export interface Facet {
+  name: string;
+  displayName: string;
+  type: RefinementType.Value | RefinementType.Range;
+  /**
+   * Whether several values of the facet can be selected at once.
+   */
+  or: boolean;
+  values: FacetValue[];
+  /**
+   * Lowest and highest bound of a range facet.
+   */
+  min?: number;
+  max?: number;
+  /**
+   * The range currently applied to a range facet, if any.
+   */
+  selectedRange?: { low: number; high: number };
+}
+
+function refinementValue(refinement: GbiRefinement): string {
+  return refinement.type === RefinementType.Range
+    ? `${refinement.low ?? ''}${RANGE_SEPARATOR}${refinement.high ?? ''}`
+    : refinement.value;
+}
+
+/**
+ * The canonical refinement string of a navigation refinement, used to compare it with the applied refinements
+ * independently of how those were encoded.
+ */
+function refinementKey(name: string, refinement: GbiRefinement): string | undefined {
+  if (refinement.type === RefinementType.Value) {
+    return encodeRefinement({ navigationName: name, value: refinement.value });
+  }
+  if (refinement.low === undefined || refinement.high === undefined) return undefined;
+  return encodeRefinement({ navigationName: name, low: refinement.low, high: refinement.high });
+}
+
+function parseSelectedRange(name: string, selectedRefinements: readonly DecodedRefinement[]): Facet['selectedRange'] {
+  for (const refinement of selectedRefinements) {
+    if (refinement.type === RefinementType.Range && refinement.navigationName === name) {
+      return { low: refinement.low, high: refinement.high };
+    }
+  }
+  return undefined;
+}
+
+interface Selection {
+  keys: ReadonlySet<string>;
+  refinements: readonly DecodedRefinement[];
+}
+
+function toFacet(
+  navigation: GbiNavigation,
+  selectedNavigation: GbiNavigation | undefined,
+  selection: Selection | undefined
+): Facet {
+  const type = navigation.type === RefinementType.Range || navigation.range ? RefinementType.Range : RefinementType.Value;
+  const selectedInResponse = new Set((selectedNavigation?.refinements ?? []).map(refinementValue));
+  const isSelected = (refinement: GbiRefinement) => selection
+    ? selection.keys.has(refinementKey(navigation.name, refinement) ?? '')
+    : selectedInResponse.has(refinementValue(refinement));
+
+  const values: FacetValue[] = (navigation.refinements ?? []).map(refinement => {
+    const value = refinementValue(refinement);
+    const facetValue: FacetValue = { value, count: refinement.count ?? 0, selected: isSelected(refinement) };
+    if (refinement.type === RefinementType.Range) {
+      facetValue.low = refinement.low;
+      facetValue.high = refinement.high;
+    }
+    return facetValue;
+  });
+
+  // Keep applied values visible even when GBI leaves them out of the available refinements.
+  for (const refinement of selectedNavigation?.refinements ?? []) {
+    const value = refinementValue(refinement);
+    if (!values.some(existing => existing.value === value)) {
+      values.push({
+        value,
+        count: refinement.count ?? 0,
+        selected: isSelected(refinement),
+        ...(refinement.type === RefinementType.Range ? { low: refinement.low, high: refinement.high } : {}),
+      });
+    }
+  }
+
+  const facet: Facet = {
+    name: navigation.name,
+    displayName: navigation.displayName || navigation.name,
+    type,
+    or: navigation.or,
+    values,
+  };
+
+  if (type === RefinementType.Range) {
+    const bounds = values.flatMap(value => [value.low, value.high]).filter((bound): bound is number => bound !== undefined);
+    facet.min = navigation.min ?? (bounds.length ? Math.min(...bounds) : undefined);
+    facet.max = navigation.max ?? (bounds.length ? Math.max(...bounds) : undefined);
+    const selectedBucket = values.find(value => value.selected && value.low !== undefined && value.high !== undefined);
+    facet.selectedRange = selection
+      ? parseSelectedRange(navigation.name, selection.refinements)
+      : selectedBucket && { low: selectedBucket.low as number, high: selectedBucket.high as number };
+  }
+
+  return facet;
+}
+
+/**
+ * Builds facets from the navigations of a search response, marking the values that are selected.
+ *
+ * When `selectedRefinements` (the `navigationName:value` strings kept by the State Driver's Input Store)
+ * is given, it decides which values are selected, so the facets reflect a refinement change immediately,
+ * before the next response arrives. Otherwise the response's `selectedNavigation` is used.
+ *
+ * @param searchResult - The search response (only `availableNavigation` and `selectedNavigation` are read).
+ * @param selectedRefinements - Optional, the currently applied refinement strings.
+ * @returns The facets, in the order of `availableNavigation`.
+ *
+ * @example
+ * const facets = parseFacets(response.rawResponse, ["brand:Nike", "price:10--to--50"]);
+ * // [{ name: "brand", type: "Value", values: [{ value: "Nike", count: 12, selected: true }, ...] }, ...]
+ */
+export function parseFacets(
+  searchResult: Pick<SearchResult, 'availableNavigation' | 'selectedNavigation'> | null | undefined,
+  selectedRefinements?: readonly string[]
+): Facet[] {
+  const decoded = (selectedRefinements ?? [])
+    .map(decodeRefinement)
+    .filter((refinement): refinement is DecodedRefinement => refinement !== null);
+  const selection: Selection | undefined = selectedRefinements && {
+    keys: new Set(decoded.map(refinement => encodeRefinement(refinement))),
+    refinements: decoded,
+  };
+  const available = searchResult?.availableNavigation ?? [];
+  const selectedNavigations = searchResult?.selectedNavigation ?? [];
+
+  const facets = available.map(navigation =>
+    toFacet(navigation, selectedNavigations.find(nav => nav.name === navigation.name), selection)
+  );
+
+  // Navigations that are fully applied may only be present in selectedNavigation.
+  for (const navigation of selectedNavigations) {
+    if (!available.some(nav => nav.name === navigation.name)) {
+      facets.push(toFacet({ ...navigation, refinements: [] }, navigation, selection));
+    }
+  }
+
+  return facets;
+}
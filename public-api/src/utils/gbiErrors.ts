@@ -0,0 +1,197 @@
+/**
+ * Discriminant shared by all SDK errors so consumers can branch without `instanceof`
+ * (which breaks across duplicated bundles).
+ */
+export type GbiErrorKind = 'http' | 'network' | 'timeout' | 'parse' | 'storefront' | 'unknown';
+
+/**
+ * A plain, serializable description of an SDK error, suitable for storing in state.
+ */
+export interface GbiErrorInfo {
+  kind: GbiErrorKind;
+  name: string;
+  message: string;
+  /**
+   * HTTP status code, when the failure came from a non-OK response.
+   */
+  status?: number;
+  /**
+   * The URL that was requested.
+   */
+  endpoint?: string;
+  /**
+   * How many attempts were made before giving up (see `RetryPolicy`).
+   */
+  attempts?: number;
+}
+
+/**
+ * Context common to every SDK error.
+ */
+export interface GbiErrorDetails {
+  endpoint?: string;
+  cause?: unknown;
+  attempts?: number;
+}
+
+/**
+ * Base class for every error thrown by the public-api requesters.
+ */
+export class GbiError extends Error {
+  readonly kind: GbiErrorKind = 'unknown';
+  readonly endpoint?: string;
+  readonly attempts?: number;
+
+  constructor(message: string, details: GbiErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = 'GbiError';
+    this.endpoint = details.endpoint;
+    this.attempts = details.attempts;
+  }
+
+  /**
+   * Returns a serializable description of this error.
+   */
+  toInfo(): GbiErrorInfo {
+    return {
+      kind: this.kind,
+      name: this.name,
+      message: this.message,
+      endpoint: this.endpoint,
+      attempts: this.attempts,
+    };
+  }
+}
+
+/**
+ * Thrown when a GBI endpoint responds with a non-OK HTTP status (e.g. 404 for an unknown tenant, 429 when throttled).
+ */
+export class GbiHttpError extends GbiError {
+  readonly kind: GbiErrorKind = 'http';
+  readonly status: number;
+  readonly statusText: string;
+  /**
+   * The response body as text, if it could be read.
+   */
+  readonly body: string;
+
+  constructor(endpoint: string, status: number, statusText: string, body: string, attempts?: number) {
+    super(`Request to ${endpoint} failed with status ${status}${statusText ? ` ${statusText}` : ''}: ${body}`, { endpoint, attempts });
+    this.name = 'GbiHttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+
+  toInfo(): GbiErrorInfo {
+    return { ...super.toInfo(), status: this.status };
+  }
+}
+
+/**
+ * Thrown when the request never produced a response (offline, DNS, CORS, connection reset).
+ */
+export class GbiNetworkError extends GbiError {
+  readonly kind: GbiErrorKind = 'network';
+
+  constructor(endpoint: string, cause: unknown, attempts?: number) {
+    super(`Network request to ${endpoint} failed: ${cause instanceof Error ? cause.message : String(cause)}`, { endpoint, cause, attempts });
+    this.name = 'GbiNetworkError';
+  }
+}
+
+/**
+ * Thrown when an attempt exceeds the per-attempt timeout of the retry policy.
+ */
+export class GbiTimeoutError extends GbiError {
+  readonly kind: GbiErrorKind = 'timeout';
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number, attempts?: number) {
+    super(`Request to ${endpoint} timed out after ${timeoutMs}ms`, { endpoint, attempts });
+    this.name = 'GbiTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when a response body cannot be parsed as JSON.
+ */
+export class GbiParseError extends GbiError {
+  readonly kind: GbiErrorKind = 'parse';
+
+  constructor(endpoint: string, cause: unknown, attempts?: number) {
+    super(`Failed to parse response from ${endpoint}: ${cause instanceof Error ? cause.message : String(cause)}`, { endpoint, cause, attempts });
+    this.name = 'GbiParseError';
+  }
+}
+
+/**
+ * A single error entry from a Shopify Storefront GraphQL response.
+ */
+export interface StorefrontGraphQLError {
+  message: string;
+  path?: (string | number)[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Thrown when the Shopify Storefront API rejects a request, either with a non-OK status or with GraphQL `errors`.
+ */
+export class StorefrontApiError extends GbiError {
+  readonly kind: GbiErrorKind = 'storefront';
+  readonly status?: number;
+  readonly errors: StorefrontGraphQLError[];
+
+  constructor(
+    endpoint: string,
+    message: string,
+    details: { status?: number; errors?: StorefrontGraphQLError[]; attempts?: number } = {}
+  ) {
+    super(`Storefront API request to ${endpoint} failed: ${message}`, { endpoint, attempts: details.attempts });
+    this.name = 'StorefrontApiError';
+    this.status = details.status;
+    this.errors = details.errors ?? [];
+  }
+
+  toInfo(): GbiErrorInfo {
+    return { ...super.toInfo(), status: this.status };
+  }
+}
+
+/**
+ * Converts any thrown value into a {@link GbiErrorInfo}.
+ *
+ * @param error - The caught value.
+ * @returns A serializable error description.
+ */
+export function toGbiErrorInfo(error: unknown): GbiErrorInfo {
+  if (error instanceof GbiError) {
+    return error.toInfo();
+  }
+  if (error instanceof Error) {
+    return { kind: 'unknown', name: error.name, message: error.message };
+  }
+  return { kind: 'unknown', name: 'Error', message: String(error) };
+}
+
+/**
+ * Reads a fetch Response as JSON, throwing {@link GbiHttpError} for non-OK statuses
+ * and {@link GbiParseError} for malformed bodies.
+ *
+ * @param response - The fetch Response object.
+ * @param endpoint - The URL that was requested.
+ * @param attempts - Optional number of attempts it took to get this response.
+ * @returns The parsed JSON data.
+ */
+export async function parseJsonResponse<T = any>(response: Response, endpoint: string, attempts?: number): Promise<T> {
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new GbiHttpError(endpoint, response.status, response.statusText, body, attempts);
+  }
+  try {
+    return await response.json() as T;
+  } catch (error) {
+    throw new GbiParseError(endpoint, error, attempts);
+  }
+}
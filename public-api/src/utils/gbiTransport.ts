@@ -0,0 +1,239 @@
+import { AppEnv } from './searchUtils.types';
+import { parseJsonResponse } from './gbiErrors';
+import { fetchWithRetry, resolveRetryPolicy } from './retryPolicy';
+import type { RetryPolicy } from './retryPolicy';
+import type { SearchCache } from './searchCache';
+import type { SortCatalog } from './sortCatalog';
+import type { BeaconTracker } from '../beacon-tracker/createBeaconTracker';
+import type { IdentityManager } from '../identity-manager/createIdentityManager';
+import { stableStringify } from './stableStringify';
+import { createInflightRequests } from './inflightRequests';
+import type { InflightRequests } from './inflightRequests';
+
+/**
+ * GBI proxy services, reachable under `/{shopTenant}/api/{service}`.
+ */
+export type GbiService = 'search' | 'request' | 'recommendation';
+
+/**
+ * Values available to an endpoint resolver when building a request URL.
+ */
+export interface GbiEndpointContext {
+  shopTenant: string;
+  appEnv: AppEnv;
+  service: GbiService;
+}
+
+/**
+ * Builds the absolute (or relative, e.g. a Shopify app-proxy path) URL for a GBI service.
+ */
+export type GbiEndpointResolver = (context: GbiEndpointContext) => string;
+
+/**
+ * The subset of the `fetch` signature the SDK relies on.
+ */
+export type FetchFn = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Options for creating a transport. Either `baseUrl` or `resolveEndpoint` may be provided;
+ * when both are present `resolveEndpoint` wins.
+ */
+export interface GbiTransportOptions {
+  shopTenant: string;
+  /**
+   * Application environment used by the default endpoint resolver. Defaults to Production.
+   */
+  appEnv?: AppEnv;
+  /**
+   * Replaces `https://{proxy}.groupbycloud.com`; requests go to `{baseUrl}/{shopTenant}/api/{service}`.
+   */
+  baseUrl?: string;
+  /**
+   * Full control over endpoint construction.
+   */
+  resolveEndpoint?: GbiEndpointResolver;
+  /**
+   * Custom fetch implementation for GBI requests. Defaults to the global `fetch`.
+   */
+  fetch?: FetchFn;
+  /**
+   * Fetch implementation for the lookups of the product enrichers (Storefront API, AJAX product and section
+   * rendering requests to the shop domain). Defaults to the global `fetch`; the GBI `fetch` is never used for them.
+   */
+  enricherFetch?: FetchFn;
+  /**
+   * Extra headers sent with every GBI request (applied after the SDK defaults).
+   */
+  headers?: Record<string, string>;
+  /**
+   * Timeout and retry overrides (see {@link RetryPolicy}); unspecified fields use `DEFAULT_RETRY_POLICY`.
+   */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Opt-in cache for search responses (see `createSearchCache`). Only the GBI response is cached, so the Shopify
+   * merge still runs on a cache hit. Autocomplete and recommendations are never cached.
+   */
+  searchCache?: SearchCache;
+  /**
+   * Coalesce concurrent identical search and autocomplete requests into one network call. Defaults to true.
+   */
+  dedupeRequests?: boolean;
+  /**
+   * Sort options that `sortBy` ids resolve against (see `createSortCatalog`). Unknown ids use the catalog default.
+   * Without a catalog, `sortBy` is parsed as `field-order` pairs.
+   */
+  sortCatalog?: SortCatalog;
+  /**
+   * Analytics tracker (see `createBeaconTracker`). When set, displayed search results are tracked automatically.
+   */
+  beaconTracker?: BeaconTracker;
+  /**
+   * Visitor identity (see `createIdentityManager`), attached to every search and recommendations request.
+   */
+  identity?: IdentityManager;
+}
+
+/**
+ * Resolved endpoint construction and transport shared by all GBI requesters.
+ */
+export interface GbiTransport {
+  shopTenant: string;
+  appEnv: AppEnv;
+  resolveEndpoint: GbiEndpointResolver;
+  fetch: FetchFn;
+  enricherFetch: FetchFn;
+  headers: Record<string, string>;
+  retryPolicy: RetryPolicy;
+  searchCache?: SearchCache;
+  dedupeRequests: boolean;
+  inflightRequests: InflightRequests;
+  sortCatalog?: SortCatalog;
+  beaconTracker?: BeaconTracker;
+  identity?: IdentityManager;
+}
+
+/**
+ * Returns the GroupBy cloud proxy origin for the given environment.
+ *
+ * @param appEnv - The application environment.
+ * @returns The proxy origin, without a trailing slash.
+ */
+export function getGbiProxyOrigin(appEnv: AppEnv): string {
+  return `https://${appEnv === AppEnv.Production ? AppEnv.ProxyProd : AppEnv.ProxyDev}.groupbycloud.com`;
+}
+
+// Transports using the global fetch for GBI and enrichment requests (e.g. standalone requester calls, which create
+// a transport per call) share one registry, so that independent widgets on the same page still coalesce.
+const globalFetchInflightRequests = createInflightRequests();
+
+/**
+ * The default endpoint resolver, pointing at the GroupBy cloud proxy.
+ */
+export const defaultEndpointResolver: GbiEndpointResolver = ({ shopTenant, appEnv, service }) =>
+  `${getGbiProxyOrigin(appEnv)}/${shopTenant}/api/${service}`;
+
+/**
+ * Creates a transport from the given options, filling in defaults.
+ *
+ * @param options - Transport options (see {@link GbiTransportOptions}).
+ * @returns The resolved transport.
+ */
+export function createGbiTransport(options: GbiTransportOptions): GbiTransport {
+  const baseUrl = options.baseUrl?.replace(/\/+$/, '');
+  const resolveEndpoint: GbiEndpointResolver =
+    options.resolveEndpoint ??
+    (baseUrl
+      ? ({ shopTenant, service }) => `${baseUrl}/${shopTenant}/api/${service}`
+      : defaultEndpointResolver);
+
+  return {
+    shopTenant: options.shopTenant,
+    appEnv: options.appEnv ?? AppEnv.Production,
+    resolveEndpoint,
+    // Resolve the global lazily so it is never invoked unbound and can be replaced after creation.
+    fetch: options.fetch ?? ((input, init) => fetch(input, init)),
+    enricherFetch: options.enricherFetch ?? ((input, init) => fetch(input, init)),
+    headers: options.headers ?? {},
+    retryPolicy: resolveRetryPolicy(options.retry),
+    searchCache: options.searchCache,
+    dedupeRequests: options.dedupeRequests ?? true,
+    inflightRequests: options.fetch || options.enricherFetch ? createInflightRequests() : globalFetchInflightRequests,
+    sortCatalog: options.sortCatalog,
+    beaconTracker: options.beaconTracker,
+    identity: options.identity,
+  };
+}
+
+/**
+ * Options for a single GBI request. `params` are appended to the endpoint as a query string.
+ */
+export type GbiRequestInit = Omit<RequestInit, 'headers'> & {
+  params?: URLSearchParams;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Resolves the full URL for a GBI service, including any query parameters.
+ *
+ * @param transport - The transport to use.
+ * @param service - The GBI service to call.
+ * @param params - Optional query parameters.
+ * @returns The request URL.
+ */
+export function resolveGbiUrl(transport: GbiTransport, service: GbiService, params?: URLSearchParams): string {
+  const endpoint = transport.resolveEndpoint({
+    shopTenant: transport.shopTenant,
+    appEnv: transport.appEnv,
+    service,
+  });
+  return params ? `${endpoint}${endpoint.includes('?') ? '&' : '?'}${params.toString()}` : endpoint;
+}
+
+/**
+ * Sends a request to a GBI service through the given transport, applying its retry policy,
+ * and parses the JSON response.
+ *
+ * @param transport - The transport to use.
+ * @param service - The GBI service to call.
+ * @param init - The request init (see {@link GbiRequestInit}).
+ * @returns The parsed JSON data.
+ *
+ * @throws {GbiTimeoutError} If the last attempt timed out.
+ * @throws {GbiNetworkError} If no response was received.
+ * @throws {GbiHttpError} If the response status is not OK.
+ * @throws {GbiParseError} If the response body is not valid JSON.
+ */
+export async function requestGbiJson<T = any>(
+  transport: GbiTransport,
+  service: GbiService,
+  init: GbiRequestInit
+): Promise<T> {
+  const { params, headers, ...rest } = init;
+  const url = resolveGbiUrl(transport, service, params);
+
+  const { response, attempts } = await fetchWithRetry(
+    transport.fetch,
+    url,
+    { ...rest, headers: { ...headers, ...transport.headers } },
+    transport.retryPolicy
+  );
+
+  return parseJsonResponse<T>(response, url, attempts);
+}
+
+/**
+ * Builds a key identifying a GBI request for in-flight deduplication. Requests are considered identical
+ * when they target the same endpoint with the same extra headers and the same payload.
+ *
+ * @param transport - The transport the request is sent through.
+ * @param service - The GBI service.
+ * @param payload - Everything else that affects the result (arguments, merge settings, ...).
+ * @returns The request key.
+ */
+export function buildGbiRequestKey(transport: GbiTransport, service: GbiService, payload: unknown): string {
+  return stableStringify({
+    endpoint: resolveGbiUrl(transport, service),
+    headers: transport.headers,
+    payload,
+  });
+}
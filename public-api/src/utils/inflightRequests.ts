@@ -0,0 +1,110 @@
+import { debugLog } from './debugLogger';
+
+interface InflightEntry {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /**
+   * Callers that can still abort. Once every abortable caller has aborted (and no caller
+   * without a signal joined), the shared request is aborted too.
+   */
+  abortableSubscribers: number;
+  hasPermanentSubscriber: boolean;
+}
+
+/**
+ * The requests in flight through one transport, by request key (see `createInflightRequests`).
+ */
+export type InflightRequests = Map<string, InflightEntry>;
+
+/**
+ * Creates an empty registry of in-flight requests. Each transport owns one, so that requests sent
+ * through different fetch implementations are never coalesced.
+ *
+ * @returns The registry.
+ */
+export function createInflightRequests(): InflightRequests {
+  return new Map();
+}
+
+function subscribe<T>(inflight: InflightRequests, key: string, entry: InflightEntry, signal?: AbortSignal): Promise<T> {
+  const shared = entry.promise as Promise<T>;
+  if (!signal) {
+    entry.hasPermanentSubscriber = true;
+    return shared;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  entry.abortableSubscribers++;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      entry.abortableSubscribers--;
+      if (entry.abortableSubscribers === 0 && !entry.hasPermanentSubscriber) {
+        debugLog('Dedupe', 'All callers aborted, cancelling shared request', key);
+        // Let callers arriving after the cancellation start a fresh request.
+        if (inflight.get(key) === entry) {
+          inflight.delete(key);
+        }
+        entry.controller.abort(signal.reason);
+      }
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    shared.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Coalesces concurrent identical requests into a single execution.
+ *
+ * The first caller for a key starts `run`; callers arriving while it is in flight share its promise.
+ * Each caller may pass its own AbortSignal: aborting rejects only that caller, and the shared request
+ * is cancelled once every caller has aborted. The entry is removed as soon as the request settles,
+ * so later calls always start fresh.
+ *
+ * @param inflight - The requests in flight through the transport (see `createInflightRequests`).
+ * @param key - Identifies identical requests (see `stableStringify`).
+ * @param signal - Optional AbortSignal of this caller.
+ * @param run - Performs the request; receives the signal of the shared request.
+ * @returns The (possibly shared) result.
+ */
+export function dedupeInflight<T>(
+  inflight: InflightRequests,
+  key: string,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const existing = inflight.get(key);
+  if (existing) {
+    debugLog('Dedupe', 'Joining identical in-flight request', key);
+    return subscribe<T>(inflight, key, existing, signal);
+  }
+
+  const controller = new AbortController();
+  const entry: InflightEntry = {
+    promise: Promise.resolve(),
+    controller,
+    abortableSubscribers: 0,
+    hasPermanentSubscriber: false,
+  };
+  entry.promise = run(controller.signal).finally(() => {
+    if (inflight.get(key) === entry) {
+      inflight.delete(key);
+    }
+  });
+  // Rejections are delivered to subscribers; avoid an unhandled rejection on the shared promise itself.
+  entry.promise.catch(() => undefined);
+  inflight.set(key, entry);
+
+  return subscribe<T>(inflight, key, entry, signal);
+}
@@ -0,0 +1,125 @@
+/**
+ * A pre-filter expression, restricting the records a search can return before relevance and refinements apply.
+ * Build expressions with the {@link preFilter} helpers and turn them into the API syntax with `serializePreFilter`.
+ */
+export type PreFilter =
+  | { type: 'any'; field: string; values: readonly string[] }
+  | { type: 'range'; field: string; low?: number; high?: number; lowExclusive?: boolean; highExclusive?: boolean }
+  | { type: 'and'; filters: readonly PreFilter[] }
+  | { type: 'or'; filters: readonly PreFilter[] }
+  | { type: 'not'; filter: PreFilter };
+
+/**
+ * Bounds of a range pre-filter. Omitted bounds are open; bounds are inclusive unless marked exclusive.
+ */
+export interface PreFilterRange {
+  low?: number;
+  high?: number;
+  lowExclusive?: boolean;
+  highExclusive?: boolean;
+}
+
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+function assertField(field: string): string {
+  if (!FIELD_PATTERN.test(field)) {
+    throw new Error(`Invalid pre-filter field "${field}"`);
+  }
+  return field;
+}
+
+function assertValues(field: string, values: readonly string[]): readonly string[] {
+  if (values.length === 0) {
+    throw new Error(`An ANY pre-filter on "${field}" needs at least one value`);
+  }
+  return values;
+}
+
+/**
+ * Builders for {@link PreFilter} expressions.
+ *
+ * @example
+ * // In-stock Nike or Adidas products that are not tagged "hidden":
+ * const filter = preFilter.and(
+ *   preFilter.any("availability", ["IN_STOCK"]),
+ *   preFilter.any("brands", ["Nike", "Adidas"]),
+ *   preFilter.not(preFilter.any("tags", ["hidden"])),
+ * );
+ */
+export const preFilter = {
+  /** Matches records whose field has any of the given values. Throws when no values are given. */
+  any: (field: string, values: readonly string[]): PreFilter => ({
+    type: 'any',
+    field: assertField(field),
+    values: assertValues(field, values),
+  }),
+  /** Matches records whose numeric field lies within the range. */
+  range: (field: string, range: PreFilterRange): PreFilter => ({ type: 'range', field: assertField(field), ...range }),
+  /** Matches records matching every filter. Without filters it matches everything. */
+  and: (...filters: PreFilter[]): PreFilter => ({ type: 'and', filters }),
+  /** Matches records matching at least one filter. */
+  or: (...filters: PreFilter[]): PreFilter => ({ type: 'or', filters }),
+  /** Matches records not matching the filter. */
+  not: (filter: PreFilter): PreFilter => ({ type: 'not', filter }),
+};
+
+/**
+ * The default pre-filter: only products that are in stock.
+ */
+export const IN_STOCK_PRE_FILTER: PreFilter = preFilter.any('availability', ['IN_STOCK']);
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function formatBound(value: number | undefined, exclusive: boolean | undefined): string {
+  if (value === undefined) return '*';
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid pre-filter bound ${value}`);
+  }
+  return exclusive ? `${value}e` : `${value}`;
+}
+
+function serializeOperand(filter: PreFilter): string {
+  const expression = serializePreFilter(filter);
+  const isCompound = (filter.type === 'and' || filter.type === 'or')
+    && filter.filters.filter(child => serializePreFilter(child) !== '').length > 1;
+  return isCompound ? `(${expression})` : expression;
+}
+
+/**
+ * Serializes a pre-filter into the GBI pre-filter syntax. String values are quoted and escaped.
+ *
+ * @param filter - The pre-filter expression.
+ * @returns The pre-filter string; empty when the filter matches everything.
+ * @throws Throws an error for invalid field names, an ANY without values, non-finite range bounds, an empty OR
+ *   or a negated empty filter.
+ *
+ * @example
+ * serializePreFilter(preFilter.and(IN_STOCK_PRE_FILTER, preFilter.range("price", { low: 10, high: 50 })));
+ * // 'availability:ANY("IN_STOCK") AND price:IN(10, 50)'
+ */
+export function serializePreFilter(filter: PreFilter): string {
+  switch (filter.type) {
+    case 'any':
+      return `${assertField(filter.field)}:ANY(${assertValues(filter.field, filter.values).map(quote).join(', ')})`;
+    case 'range':
+      return `${assertField(filter.field)}:IN(${formatBound(filter.low, filter.lowExclusive)}, ${formatBound(filter.high, filter.highExclusive)})`;
+    case 'and':
+    case 'or':
+      if (filter.type === 'or' && filter.filters.length === 0) {
+        throw new Error('An OR pre-filter needs at least one filter');
+      }
+      return filter.filters
+        .map(serializeOperand)
+        .filter(expression => expression !== '')
+        .join(filter.type === 'and' ? ' AND ' : ' OR ');
+    case 'not': {
+      const operand = serializeOperand(filter.filter);
+      if (!operand) {
+        throw new Error('Cannot negate a pre-filter that matches everything');
+      }
+      return `NOT ${operand}`;
+    }
+  }
+}
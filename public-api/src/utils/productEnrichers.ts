@@ -0,0 +1,219 @@
+import type { ProductDetail, ProductDetailsResult, ProductRecord, SearchProduct } from './searchUtils.types';
+import type { RetryPolicy } from './retryPolicy';
+import { fetchWithRetry } from './retryPolicy';
+import type { FetchFn } from './gbiTransport';
+import { getRecordHandle, mergeProductWithRecord } from './searchUtils';
+import { mapWithConcurrency } from './concurrency';
+import { resolveShopifyMarket } from './shopifyMarket';
+import { fetchStorefrontProducts } from '../search-requester/fetchStorefrontProducts';
+import type { ShopifyConfig } from '../search-requester/fetchStorefrontProducts';
+import { fetchAjaxProducts } from '../search-requester/fetchAjaxProducts';
+
+/**
+ * Settings of the request an enrichment runs for.
+ */
+export interface EnrichmentContext {
+  retryPolicy: RetryPolicy;
+  signal?: AbortSignal;
+  /**
+   * The fetch implementation for enrichment lookups: the client's `enricherFetch`, the global `fetch` by default.
+   */
+  fetch: FetchFn;
+}
+
+/**
+ * A strategy for loading product data for search records and merging it into them, e.g. Shopify
+ * product details, rendered product cards or content from a headless CMS.
+ */
+export interface ProductEnricher {
+  /**
+   * Identifies the strategy in merge diagnostics and debug logs.
+   */
+  readonly name: string;
+  /**
+   * Enriches the records.
+   *
+   * @param records - The search records, in result order.
+   * @param context - The retry policy, abort signal and fetch implementation for the lookups.
+   * @returns One entry per record, in record order: the enriched product, or `null` when there is no data for
+   * the record (the missing-product policy then applies). Errors fail the whole request.
+   */
+  enrich(records: readonly ProductRecord[], context: EnrichmentContext): Promise<(SearchProduct | null)[]>;
+}
+
+/**
+ * Combines a Shopify product with its search record.
+ */
+export type ProductMerger = (product: ProductDetail, record: ProductRecord) => SearchProduct;
+
+/**
+ * Options of the built-in Shopify enrichers.
+ */
+export interface ShopifyEnricherOptions {
+  /**
+   * Decides which fields win when a Shopify product is combined with its search record.
+   * Defaults to `mergeProductWithRecord`.
+   */
+  mergeProduct?: ProductMerger;
+}
+
+/**
+ * Options of the Section Rendering API enricher.
+ */
+export interface SectionRenderingEnricherOptions {
+  /**
+   * Id of the theme section rendering a product card, e.g. `"product-card"`.
+   */
+  sectionId: string;
+  /**
+   * Maximum number of sections requested at once. Defaults to 4.
+   */
+  concurrency?: number;
+}
+
+/**
+ * A search record with the HTML of its product card, rendered by the theme.
+ */
+export type RenderedProductRecord = ProductRecord & { html: string };
+
+const DEFAULT_SECTION_CONCURRENCY = 4;
+
+// Ids of the enricher instances passed to requests, see `getEnricherId`.
+const enricherIds = new WeakMap<ProductEnricher, string>();
+let enricherCount = 0;
+
+/**
+ * Returns an id unique to the enricher instance. Enrichers sharing a name (e.g. a `storefront-graphql` enricher with
+ * a custom `mergeProduct`) may produce different products, so deduplicated requests tell them apart by this id.
+ *
+ * @param enricher - The enricher.
+ * @returns The id, e.g. `storefront-graphql#3`.
+ */
+export function getEnricherId(enricher: ProductEnricher): string {
+  let id = enricherIds.get(enricher);
+  if (!id) {
+    id = `${enricher.name}#${++enricherCount}`;
+    enricherIds.set(enricher, id);
+  }
+  return id;
+}
+
+/**
+ * Builds an enricher that looks products up by handle and merges each one with its record.
+ */
+function createHandleEnricher(
+  name: string,
+  fetchProducts: (handles: string[], context: EnrichmentContext) => Promise<ProductDetailsResult>,
+  mergeProduct: ProductMerger
+): ProductEnricher {
+  return {
+    name,
+    async enrich(records, context) {
+      const handles = records.map(getRecordHandle);
+      const lookups = handles.filter((handle): handle is string => Boolean(handle));
+      const { products } = lookups.length ? await fetchProducts(lookups, context) : { products: [] };
+      const productsByHandle = new Map(lookups.map((handle, index) => [handle, products[index]]));
+
+      return records.map((record, index) => {
+        const product = handles[index] ? productsByHandle.get(handles[index]) : null;
+        return product ? mergeProduct(product, record) : null;
+      });
+    },
+  };
+}
+
+/**
+ * Creates an enricher loading Shopify products through the Storefront GraphQL API (see `fetchStorefrontProducts`).
+ *
+ * @param shopifyConfig - The Storefront API configuration.
+ * @param options - Optional merge override.
+ * @returns The `storefront-graphql` enricher.
+ */
+export function createStorefrontEnricher(shopifyConfig: ShopifyConfig, options: ShopifyEnricherOptions = {}): ProductEnricher {
+  return createHandleEnricher(
+    'storefront-graphql',
+    (handles, { retryPolicy, signal, fetch }) => fetchStorefrontProducts(handles, shopifyConfig, retryPolicy, signal, fetch),
+    options.mergeProduct ?? mergeProductWithRecord
+  );
+}
+
+/**
+ * Creates an enricher loading Shopify products from the theme's AJAX `/products/{handle}.js` endpoint.
+ *
+ * @param options - Optional merge override.
+ * @returns The `ajax-json` enricher.
+ */
+export function createAjaxEnricher(options: ShopifyEnricherOptions = {}): ProductEnricher {
+  return createHandleEnricher(
+    'ajax-json',
+    (handles, { retryPolicy, signal, fetch }) => fetchAjaxProducts(handles, retryPolicy, signal, fetch),
+    options.mergeProduct ?? mergeProductWithRecord
+  );
+}
+
+/**
+ * Creates an enricher rendering a product card per record with the Shopify Section Rendering API
+ * (`/products/{handle}?section_id={sectionId}`, under the locale root of the current page).
+ * Each record is returned with the card markup as `html` (see {@link RenderedProductRecord}).
+ *
+ * @param options - The section to render and the request concurrency.
+ * @returns The `section-rendering` enricher.
+ *
+ * @example
+ * const enricher = createSectionRenderingEnricher({ sectionId: "product-card" });
+ * const { mergedProducts } = await client.requestSearch({ ...searchOptions, enricher });
+ * grid.innerHTML = mergedProducts.map(product => (product as RenderedProductRecord).html).join("");
+ */
+export function createSectionRenderingEnricher(options: SectionRenderingEnricherOptions): ProductEnricher {
+  return {
+    name: 'section-rendering',
+    async enrich(records, { retryPolicy, signal, fetch }) {
+      const { routesRoot } = resolveShopifyMarket();
+      const sectionId = encodeURIComponent(options.sectionId);
+
+      const products = await mapWithConcurrency(
+        records,
+        options.concurrency ?? DEFAULT_SECTION_CONCURRENCY,
+        async (record): Promise<RenderedProductRecord | null> => {
+          const handle = getRecordHandle(record);
+          if (!handle) return null;
+          try {
+            const url = `${routesRoot}products/${encodeURIComponent(handle)}?section_id=${sectionId}`;
+            const { response } = await fetchWithRetry(fetch, url, { signal }, retryPolicy);
+            if (!response.ok) {
+              console.warn(`Could not render ${handle}`);
+              return null;
+            }
+            return { ...record, html: await response.text() };
+          } catch (e) {
+            console.warn(`Error rendering ${handle}`, e);
+            return null;
+          }
+        }
+      );
+
+      // Individual lookups swallow their errors, so surface a cancellation explicitly.
+      signal?.throwIfAborted();
+      return products;
+    },
+  };
+}
+
+/**
+ * An enricher returning the search records unchanged, for storefronts rendering straight from GBI data.
+ */
+export const noneEnricher: ProductEnricher = {
+  name: 'none',
+  enrich: async (records) => [...records],
+};
+
+/**
+ * Returns the enricher used when none is passed: Storefront GraphQL when a Shopify config is given,
+ * the AJAX endpoint otherwise.
+ *
+ * @param shopifyConfig - Optional Storefront API configuration.
+ * @returns The default enricher.
+ */
+export function createDefaultEnricher(shopifyConfig?: ShopifyConfig): ProductEnricher {
+  return shopifyConfig ? createStorefrontEnricher(shopifyConfig) : createAjaxEnricher();
+}
@@ -0,0 +1,51 @@
+import type { SearchResult } from './searchUtils.types';
+
+/**
+ * How GBI interpreted the query of a search: spelling corrections, suggestions, rewrites and keyword redirects.
+ */
+export interface SearchQueryInfo {
+  /**
+   * The query as the shopper typed it.
+   */
+  originalQuery: string;
+  /**
+   * The query GBI searched for instead, when it corrected the spelling. Undefined when the query was not corrected.
+   */
+  correctedQuery?: string;
+  /**
+   * Alternative spellings suggested for the query ("Did you mean ...?").
+   */
+  didYouMean: string[];
+  /**
+   * Queries the query was rewritten to by merchandising rules (e.g. synonyms).
+   */
+  rewrites: string[];
+  /**
+   * A landing page configured for the query in merchandising rules, to send the shopper to instead of the results.
+   */
+  redirectUrl?: string;
+}
+
+/**
+ * Reads the query corrections, suggestions, rewrites and keyword redirect of a search response.
+ *
+ * @param searchResult - The GBI search response.
+ * @returns The query info; `correctedQuery` is only set when GBI searched for a different query than the original.
+ *
+ * @example
+ * const { correctedQuery, originalQuery } = parseQueryInfo(rawResponse);
+ * if (correctedQuery) heading.textContent = `Showing results for "${correctedQuery}" instead of "${originalQuery}"`;
+ */
+export function parseQueryInfo(searchResult: SearchResult): SearchQueryInfo {
+  const originalQuery = searchResult.originalQuery ?? searchResult.originalRequest?.query ?? searchResult.query ?? '';
+  const correctedQuery = searchResult.correctedQuery?.trim();
+  const redirectUrl = searchResult.redirect?.trim();
+
+  return {
+    originalQuery,
+    correctedQuery: correctedQuery && correctedQuery !== originalQuery ? correctedQuery : undefined,
+    didYouMean: searchResult.didYouMean ?? [],
+    rewrites: searchResult.rewrites ?? [],
+    redirectUrl: redirectUrl || undefined,
+  };
+}
@@ -0,0 +1,198 @@
+import { RefinementType } from './searchUtils.types';
+
+const ESCAPE = '\\';
+const NAME_SEPARATOR = ':';
+const LIST_SEPARATOR = ',';
+const RANGE_SEPARATOR = '--to--';
+
+/**
+ * A refinement decoded from its string form.
+ */
+export type DecodedRefinement =
+  | { navigationName: string; type: RefinementType.Value; value: string }
+  | { navigationName: string; type: RefinementType.Range; low: number; high: number };
+
+/**
+ * The input of `encodeRefinement`: a value refinement or a range refinement.
+ */
+export type RefinementInput =
+  | { navigationName: string; value: string }
+  | { navigationName: string; low: number; high: number };
+
+/**
+ * Characters that are preceded by a backslash when they appear in a name or value. A backslash
+ * followed by any other character is kept as it is, so legacy values such as `C:\temp` decode unchanged.
+ */
+const ESCAPABLE = new Set([ESCAPE, NAME_SEPARATOR, LIST_SEPARATOR, '%', '-']);
+
+function isEscape(text: string, index: number): boolean {
+  return text[index] === ESCAPE && ESCAPABLE.has(text[index + 1]);
+}
+
+function escapePart(part: string): string {
+  return part.replace(/[\\:,%]/g, char => `${ESCAPE}${char}`);
+}
+
+/**
+ * Escapes a value so that it can never be read back as a range, e.g. `10--to--20` becomes `10\--to--20`.
+ */
+function escapeValue(value: string): string {
+  return escapePart(value).split(RANGE_SEPARATOR).join(`${ESCAPE}${RANGE_SEPARATOR}`);
+}
+
+/**
+ * Decodes percent-encoded text written by older integrations. Text that is not valid
+ * percent-encoding (e.g. `50% off`) is returned unchanged.
+ */
+function decodeLegacy(text: string): string {
+  if (!/%[0-9a-f]{2}/i.test(text)) return text;
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Removes the escapes of a name or value. Only unescaped text is percent-decoded, so escaped
+ * characters (including `%`) are taken literally.
+ */
+function decodePart(part: string): string {
+  let decoded = '';
+  let unescaped = '';
+  for (let i = 0; i < part.length; i++) {
+    if (isEscape(part, i)) {
+      decoded += decodeLegacy(unescaped) + part[i + 1];
+      unescaped = '';
+      i++;
+    } else {
+      unescaped += part[i];
+    }
+  }
+  return decoded + decodeLegacy(unescaped);
+}
+
+/**
+ * Finds the first occurrence of `char` that is not escaped.
+ */
+function indexOfUnescaped(text: string, char: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (isEscape(text, i)) {
+      i++;
+    } else if (text[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Reads `low--to--high` written by `encodeRefinement`. Values never match, because the encoder
+ * escapes the range separator inside them.
+ */
+function parseRange(rawValue: string): { low: number; high: number } | null {
+  if (rawValue.includes(ESCAPE)) return null;
+  const rangeParts = rawValue.split(RANGE_SEPARATOR);
+  if (rangeParts.length !== 2 || rangeParts.some(part => part.trim() === '')) return null;
+  const [low, high] = rangeParts.map(Number);
+  return Number.isFinite(low) && Number.isFinite(high) ? { low, high } : null;
+}
+
+/**
+ * Encodes a refinement as a `navigationName:value` string (or `navigationName:low--to--high` for ranges).
+ * Colons, commas, percent signs and backslashes in the name and value are escaped with a backslash, as is
+ * a `--to--` inside a value, so the string decodes back to exactly the same refinement and can be joined
+ * into a list with `serializeRefinements`.
+ *
+ * @param refinement - The refinement to encode.
+ * @returns The refinement string.
+ *
+ * @example
+ * encodeRefinement({ navigationName: "color", value: "Black, White" }); // "color:Black\, White"
+ * encodeRefinement({ navigationName: "size", value: "10--to--20" });   // "size:10\--to--20"
+ * encodeRefinement({ navigationName: "price", low: 10, high: 50 });     // "price:10--to--50"
+ */
+export function encodeRefinement(refinement: RefinementInput): string {
+  const name = escapePart(refinement.navigationName);
+  if ('value' in refinement) {
+    return `${name}${NAME_SEPARATOR}${escapeValue(refinement.value)}`;
+  }
+  return `${name}${NAME_SEPARATOR}${refinement.low}${RANGE_SEPARATOR}${refinement.high}`;
+}
+
+/**
+ * Decodes a refinement string produced by `encodeRefinement`.
+ *
+ * Only an unescaped `low--to--high` value is read as a range. Strings written before escaping was
+ * introduced are still understood: the name ends at the first colon (so `size:10:30` keeps `10:30` as
+ * its value), percent-encoded parts are decoded and backslashes that do not escape anything are kept.
+ *
+ * @param refinement - The refinement string.
+ * @returns The decoded refinement, or `null` when the string has no name or value.
+ */
+export function decodeRefinement(refinement: string): DecodedRefinement | null {
+  const separatorIndex = indexOfUnescaped(refinement, NAME_SEPARATOR);
+  if (separatorIndex === -1) return null;
+
+  const navigationName = decodePart(refinement.slice(0, separatorIndex));
+  const rawValue = refinement.slice(separatorIndex + 1);
+  if (!navigationName || !rawValue) return null;
+
+  const range = parseRange(rawValue);
+  if (range) {
+    return { navigationName, type: RefinementType.Range, ...range };
+  }
+
+  return { navigationName, type: RefinementType.Value, value: decodePart(rawValue) };
+}
+
+/**
+ * Joins refinement strings into a single list, e.g. for the `refinement` URL parameter.
+ *
+ * @param refinements - Refinement strings produced by `encodeRefinement`.
+ * @returns The comma-separated list.
+ */
+export function serializeRefinements(refinements: readonly string[]): string {
+  return refinements.join(LIST_SEPARATOR);
+}
+
+/**
+ * Splits a list produced by `serializeRefinements` back into refinement strings.
+ * Only unescaped commas separate entries, so values containing commas survive the round trip.
+ *
+ * @param list - The comma-separated list.
+ * @returns The refinement strings (empty entries are dropped).
+ */
+export function parseRefinements(list: string): string[] {
+  const refinements: string[] = [];
+  let rest = list;
+  let index = indexOfUnescaped(rest, LIST_SEPARATOR);
+  while (index !== -1) {
+    refinements.push(rest.slice(0, index));
+    rest = rest.slice(index + 1);
+    index = indexOfUnescaped(rest, LIST_SEPARATOR);
+  }
+  refinements.push(rest);
+  return refinements.filter(refinement => refinement !== '');
+}
+
+/**
+ * Checks whether two refinement strings describe the same refinement, regardless of how they were encoded.
+ *
+ * @param a - A refinement string.
+ * @param b - Another refinement string.
+ * @returns True when both decode to the same refinement.
+ */
+export function isSameRefinement(a: string, b: string): boolean {
+  if (a === b) return true;
+  const left = decodeRefinement(a);
+  const right = decodeRefinement(b);
+  if (!left || !right) return false;
+  if (left.type === RefinementType.Range && right.type === RefinementType.Range) {
+    return left.navigationName === right.navigationName && left.low === right.low && left.high === right.high;
+  }
+  if (left.type === RefinementType.Value && right.type === RefinementType.Value) {
+    return left.navigationName === right.navigationName && left.value === right.value;
+  }
+  return false;
+}
@@ -0,0 +1,205 @@
+import { GbiNetworkError, GbiTimeoutError } from './gbiErrors';
+import { debugLog } from './debugLogger';
+import type { FetchFn } from './gbiTransport';
+
+/**
+ * Timeout and retry behaviour applied to every outbound request (GBI and Shopify enrichment).
+ */
+export interface RetryPolicy {
+  /**
+   * Per-attempt timeout in milliseconds. `0` disables the timeout.
+   */
+  timeoutMs: number;
+  /**
+   * Number of retries after the first attempt. `0` disables retrying.
+   */
+  maxRetries: number;
+  /**
+   * Delay before the first retry; doubled for every subsequent retry.
+   */
+  baseDelayMs: number;
+  /**
+   * Upper bound for a single backoff delay. A `Retry-After` longer than this stops retrying.
+   */
+  maxDelayMs: number;
+  /**
+   * Randomizes each delay between 50% and 100% of its computed value.
+   */
+  jitter: boolean;
+  /**
+   * HTTP statuses that are retried.
+   */
+  retryOnStatus: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: 10000,
+  maxRetries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Fills in a partial retry policy with the defaults.
+ *
+ * @param policy - Optional overrides.
+ * @returns The complete retry policy.
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Computes the exponential backoff delay before the given retry.
+ *
+ * @param policy - The retry policy.
+ * @param retry - The 1-based retry number.
+ * @returns The delay in milliseconds.
+ */
+export function getBackoffDelay(policy: RetryPolicy, retry: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Parses a `Retry-After` header (either delta-seconds or an HTTP date).
+ *
+ * @param value - The header value.
+ * @returns The delay in milliseconds, or null if absent or malformed.
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Statuses whose responses never have a body.
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Reads the body of a response into memory and returns an equivalent response backed by it.
+ */
+async function bufferResponse(response: Response): Promise<Response> {
+  const body = NULL_BODY_STATUSES.includes(response.status) ? null : await response.arrayBuffer();
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Releases the body of a response that is not read, so its connection can be reused.
+ */
+function discardBody(response: Response): void {
+  response.body?.cancel().catch(() => undefined);
+}
+
+/**
+ * The response of a request sent through {@link fetchWithRetry}, along with the attempt count.
+ * The body has already been read, so reading it again cannot hang.
+ */
+export interface RetriedResponse {
+  response: Response;
+  attempts: number;
+}
+
+/**
+ * Sends a request, applying the per-attempt timeout and retrying network failures, timeouts
+ * and the configured statuses with exponential backoff (honoring `Retry-After`).
+ *
+ * A non-retryable (or final) non-OK response is returned as-is so the caller can build the
+ * appropriate error. An abort from `init.signal` is rethrown untouched and never retried.
+ * The body of the returned response is read before returning, so the timeout and `init.signal` cover it too
+ * (a body that stalls past the timeout counts as a timed-out attempt); bodies of retried responses are discarded.
+ *
+ * @param fetchFn - The fetch implementation.
+ * @param url - The request URL.
+ * @param init - The request init.
+ * @param policy - The retry policy.
+ * @returns The final response and the number of attempts made.
+ *
+ * @throws {GbiTimeoutError} If the last attempt timed out.
+ * @throws {GbiNetworkError} If the last attempt failed without a response.
+ */
+export async function fetchWithRetry(
+  fetchFn: FetchFn,
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy
+): Promise<RetriedResponse> {
+  const callerSignal = init.signal;
+  const maxAttempts = policy.maxRetries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const onCallerAbort = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) {
+      throw callerSignal.reason;
+    }
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+    const timer = policy.timeoutMs > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, policy.timeoutMs)
+      : undefined;
+
+    let delay: number;
+    try {
+      const response = await fetchFn(url, { ...init, signal: controller.signal });
+
+      if (response.ok || !policy.retryOnStatus.includes(response.status) || attempt >= maxAttempts) {
+        return { response: await bufferResponse(response), attempts: attempt };
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== null && retryAfter > policy.maxDelayMs) {
+        debugLog('Retry', `Retry-After of ${retryAfter}ms exceeds maxDelayMs, giving up`, { url, attempt });
+        return { response: await bufferResponse(response), attempts: attempt };
+      }
+      discardBody(response);
+      delay = retryAfter ?? getBackoffDelay(policy, attempt);
+      debugLog('Retry', `Attempt ${attempt}/${maxAttempts} got status ${response.status}, retrying in ${Math.round(delay)}ms`, { url });
+    } catch (error) {
+      if (callerSignal?.aborted) {
+        throw callerSignal.reason;
+      }
+      const failure = timedOut
+        ? new GbiTimeoutError(url, policy.timeoutMs, attempt)
+        : new GbiNetworkError(url, error, attempt);
+      if (attempt >= maxAttempts) {
+        debugLog('Retry', `Attempt ${attempt}/${maxAttempts} failed, giving up`, failure);
+        throw failure;
+      }
+      delay = getBackoffDelay(policy, attempt);
+      debugLog('Retry', `Attempt ${attempt}/${maxAttempts} failed (${failure.kind}), retrying in ${Math.round(delay)}ms`, { url });
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onCallerAbort);
+    }
+
+    await wait(delay, callerSignal);
+  }
+}
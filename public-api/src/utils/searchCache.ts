@@ -0,0 +1,108 @@
+import { debugLog } from './debugLogger';
+import { stableStringify } from './stableStringify';
+import type { FetchSearchResultsArgs, SearchResult } from './searchUtils.types';
+
+/**
+ * Options for the in-memory search response cache.
+ */
+export interface SearchCacheOptions {
+  /**
+   * How long an entry stays valid, in milliseconds. Defaults to 60 seconds.
+   */
+  ttlMs?: number;
+  /**
+   * Maximum number of entries; the least recently used entry is evicted first. Defaults to 50.
+   */
+  maxEntries?: number;
+}
+
+/**
+ * An LRU cache of GBI search responses with a per-entry TTL. Only the raw GBI response is cached;
+ * product enrichment (e.g. the Shopify merge) runs again on every search.
+ */
+export interface SearchCache {
+  get(key: string): SearchResult | undefined;
+  set(key: string, value: SearchResult): void;
+  /**
+   * Removes entries. Without a predicate every entry is removed.
+   *
+   * @param predicate - Optional filter receiving the cache key; matching entries are removed.
+   */
+  invalidate(predicate?: (key: string) => boolean): void;
+  readonly size: number;
+}
+
+interface CacheEntry {
+  value: SearchResult;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL_MS = 60_000;
+const DEFAULT_MAX_ENTRIES = 50;
+
+/**
+ * Builds the cache key for a search request. Refinements are order-insensitive, so toggling
+ * a refinement off and on again hits the same entry.
+ *
+ * @param endpoint - The resolved search endpoint (identifies tenant and environment).
+ * @param args - The search arguments.
+ * @returns The cache key.
+ */
+export function buildSearchCacheKey(endpoint: string, args: FetchSearchResultsArgs): string {
+  const refinements = args.refinements.map(stableStringify).sort();
+  return `${endpoint}|${stableStringify({ ...args, refinements })}`;
+}
+
+/**
+ * Creates an in-memory LRU cache for search responses.
+ *
+ * @param options - TTL and size limits (see {@link SearchCacheOptions}).
+ * @returns The cache.
+ *
+ * @example
+ * const searchCache = createSearchCache({ ttlMs: 30000, maxEntries: 20 });
+ * const client = createGbiClient({ shopTenant: "shop123", searchCache });
+ * // ...after a catalog change:
+ * searchCache.invalidate();
+ */
+export function createSearchCache(options: SearchCacheOptions = {}): SearchCache {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  // Map preserves insertion order, so the first key is always the least recently used.
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return structuredClone(entry.value);
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value as string;
+        entries.delete(oldestKey);
+        debugLog('Search Cache', 'Evicted least recently used entry', oldestKey);
+      }
+    },
+    invalidate(predicate) {
+      if (!predicate) {
+        entries.clear();
+        return;
+      }
+      for (const key of [...entries.keys()]) {
+        if (predicate(key)) entries.delete(key);
+      }
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
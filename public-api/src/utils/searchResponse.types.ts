@@ -0,0 +1,125 @@
+import type { RefinementType, FetchSearchResultsArgs } from './searchUtils.types';
+
+/**
+ * A variant of a product record, as indexed in GBI.
+ */
+export interface GbiVariant {
+  id: string;
+  /** Additional indexed variant fields */
+  [key: string]: unknown;
+}
+
+/**
+ * A custom attribute of a product record.
+ */
+export interface GbiAttribute {
+  text?: string[];
+  numbers?: number[];
+}
+
+/**
+ * The indexed product data of a record.
+ */
+export interface GbiRecordMeta {
+  id: string;
+  title: string;
+  attributes: {
+    handle?: GbiAttribute & { text: string[] };
+    [name: string]: GbiAttribute | undefined;
+  };
+  variants?: GbiVariant[];
+  /** Additional indexed product fields (depends on the requested `fields`) */
+  [key: string]: unknown;
+}
+
+/**
+ * A single search result record.
+ */
+export interface GbiRecord {
+  _id?: string;
+  _u?: string;
+  _t?: string;
+  collection?: string;
+  allMeta: GbiRecordMeta;
+}
+
+/**
+ * A value refinement (e.g. `brand: Nike`) inside a navigation.
+ */
+export interface GbiValueRefinement {
+  type: RefinementType.Value;
+  value: string;
+  count?: number;
+  exclude?: boolean;
+}
+
+/**
+ * A range refinement (e.g. `price: 10 - 50`) inside a navigation.
+ */
+export interface GbiRangeRefinement {
+  type: RefinementType.Range;
+  low?: number;
+  high?: number;
+  count?: number;
+  exclude?: boolean;
+}
+
+export type GbiRefinement = GbiValueRefinement | GbiRangeRefinement;
+
+/**
+ * A navigation (facet) as returned in `availableNavigation` and `selectedNavigation`.
+ */
+export interface GbiNavigation {
+  name: string;
+  displayName: string;
+  type: RefinementType;
+  or: boolean;
+  range?: boolean;
+  min?: number;
+  max?: number;
+  sort?: { field: string; order: string };
+  metadata?: { key: string; value: string }[];
+  refinements: GbiRefinement[];
+}
+
+/**
+ * The position of the returned records within the full result set (1-based, inclusive).
+ */
+export interface GbiPageInfo {
+  recordStart: number;
+  recordEnd: number;
+}
+
+/**
+ * The merchandising template that matched the query.
+ */
+export interface GbiTemplate {
+  name: string;
+  ruleName?: string;
+  zones?: Record<string, unknown>;
+}
+
+/**
+ * The response of the GBI Search API.
+ */
+export interface SearchResult {
+  id?: string;
+  area?: string;
+  query?: string;
+  originalQuery?: string;
+  correctedQuery?: string;
+  records: GbiRecord[];
+  totalRecordCount: number;
+  pageInfo?: GbiPageInfo;
+  template?: GbiTemplate;
+  availableNavigation?: GbiNavigation[];
+  selectedNavigation?: GbiNavigation[];
+  didYouMean?: string[];
+  relatedQueries?: string[];
+  rewrites?: string[];
+  /**
+   * A keyword redirect URL configured in merchandising rules.
+   */
+  redirect?: string;
+  originalRequest: FetchSearchResultsArgs;
+}
@@ -0,0 +1,109 @@
+import { debugLog, sdkConfig } from './debugLogger';
+
+// Enough to spot drift without flooding the console on large pages.
+const MAX_ISSUES = 20;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateNavigations(value: unknown, path: string, issues: string[]): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    issues.push(`${path} is not an array`);
+    return;
+  }
+  value.forEach((navigation, index) => {
+    if (!isObject(navigation)) {
+      issues.push(`${path}[${index}] is not an object`);
+      return;
+    }
+    if (typeof navigation.name !== 'string') {
+      issues.push(`${path}[${index}].name is not a string`);
+    }
+    if (!Array.isArray(navigation.refinements)) {
+      issues.push(`${path}[${index}].refinements is not an array`);
+    }
+  });
+}
+
+/**
+ * Checks a GBI search response against the shape described by {@link SearchResult}.
+ * This is a lightweight structural check of the fields the SDK relies on, not a full schema validation.
+ *
+ * @param data - The parsed response body.
+ * @returns A list of issues found (empty when the response matches the expected shape).
+ *
+ * @example
+ * const issues = validateSearchResponse(await response.json());
+ * // ["records[3].allMeta.variants[0].id is missing"]
+ */
+export function validateSearchResponse(data: unknown): string[] {
+  const issues: string[] = [];
+  if (!isObject(data)) {
+    return ['response is not an object'];
+  }
+
+  if (!Array.isArray(data.records)) {
+    issues.push('records is not an array');
+  } else {
+    data.records.forEach((record, index) => {
+      const path = `records[${index}].allMeta`;
+      const allMeta = isObject(record) ? record.allMeta : undefined;
+      if (!isObject(allMeta)) {
+        issues.push(`${path} is missing`);
+        return;
+      }
+      if (typeof allMeta.id !== 'string') {
+        issues.push(`${path}.id is not a string`);
+      }
+      if (!isObject(allMeta.attributes)) {
+        issues.push(`${path}.attributes is missing`);
+      }
+      if (allMeta.variants !== undefined) {
+        if (!Array.isArray(allMeta.variants)) {
+          issues.push(`${path}.variants is not an array`);
+        } else {
+          allMeta.variants.forEach((variant, variantIndex) => {
+            if (!isObject(variant) || variant.id === undefined || variant.id === null) {
+              issues.push(`${path}.variants[${variantIndex}].id is missing`);
+            }
+          });
+        }
+      }
+    });
+  }
+
+  if (typeof data.totalRecordCount !== 'number') {
+    issues.push('totalRecordCount is not a number');
+  }
+  validateNavigations(data.availableNavigation, 'availableNavigation', issues);
+  validateNavigations(data.selectedNavigation, 'selectedNavigation', issues);
+  if (data.pageInfo !== undefined
+    && (!isObject(data.pageInfo) || typeof data.pageInfo.recordStart !== 'number' || typeof data.pageInfo.recordEnd !== 'number')) {
+    issues.push('pageInfo is malformed');
+  }
+  if (data.didYouMean !== undefined && !Array.isArray(data.didYouMean)) {
+    issues.push('didYouMean is not an array');
+  }
+  if (data.redirect !== undefined && typeof data.redirect !== 'string') {
+    issues.push('redirect is not a string');
+  }
+
+  return issues.slice(0, MAX_ISSUES);
+}
+
+/**
+ * Validates a search response when debug logging is enabled and logs any schema drift.
+ * Does nothing (and costs nothing) outside debug mode.
+ *
+ * @param data - The parsed response body.
+ * @param endpoint - The endpoint the response came from, included in the log.
+ */
+export function reportSearchResponseDrift(data: unknown, endpoint: string): void {
+  if (!sdkConfig.debug) return;
+  const issues = validateSearchResponse(data);
+  if (issues.length > 0) {
+    debugLog('Schema', `Search response from ${endpoint} does not match the expected shape`, issues);
+  }
+}
@@ -3,7 +3,6 @@ import {
   SortOrder,
   QueryParams,
   DefaultValues,
-  AppEnv,
   AUTOCOMPLETE_PREFIX,
 } from './searchUtils.types';
 
@@ -20,27 +19,31 @@ import type {
   ProductDetail,
   ProductDetailsResult,
   ProductVariant,
+  Biasing,
+  SearchProduct,
+  MissingProductPolicy,
+  MergeOutcome,
+  MergeRecordOutcome,
+  MergeResult,
 } from './searchUtils.types';
 
 import type { ShopifyConfig } from '../search-requester/fetchStorefrontProducts';
 import { fetchStorefrontProducts } from '../search-requester/fetchStorefrontProducts';
-
-/**
- * Handles the fetch response by throwing an error if the response is not OK,
- * otherwise parsing and returning the JSON data.
- *
- * @param response - The fetch Response object.
- * @returns The parsed JSON data.
- *
- * @throws Will throw an error if the response is not ok.
- */
-async function handleFetchResponse(response: Response): Promise<any> {
-  if (!response.ok) {
-    const errorMessage = await response.text();
-    throw new Error(`Failed to fetch search results: ${errorMessage}`);
-  }
-  return response.json();
-}
+import { fetchAjaxProducts } from '../search-requester/fetchAjaxProducts';
+import { requestGbiJson, resolveGbiUrl } from './gbiTransport';
+import type { FetchFn, GbiTransport } from './gbiTransport';
+import { DEFAULT_RETRY_POLICY } from './retryPolicy';
+import type { RetryPolicy } from './retryPolicy';
+import { buildSearchCacheKey } from './searchCache';
+import { debugLog } from './debugLogger';
+import { reportSearchResponseDrift } from './searchResponseValidator';
+import { decodeRefinement, parseRefinements } from './refinementCodec';
+import type { DecodedRefinement } from './refinementCodec';
+import type { SortCatalog } from './sortCatalog';
+import { IN_STOCK_PRE_FILTER, preFilter, serializePreFilter } from './preFilter';
+import type { PreFilter } from './preFilter';
+import type { EnrichmentContext, ProductEnricher } from './productEnrichers';
+import type { VisitorIdentity } from '../identity-manager/createIdentityManager';
 
 /**
  * Adjusts the first range refinement in the search results by subtracting 0.01 from its "high" value.
@@ -51,7 +54,7 @@ function adjustRangeRefinements(products: SearchResult): void {
   products?.selectedNavigation?.forEach(navigation => {
     if (navigation.type === RefinementType.Range) {
       const firstRefinement = navigation.refinements?.[0];
-      if (firstRefinement?.type === RefinementType.Range) {
+      if (firstRefinement?.type === RefinementType.Range && firstRefinement.high !== undefined) {
         firstRefinement.high -= 0.01;
       }
     }
@@ -60,40 +63,50 @@ function adjustRangeRefinements(products: SearchResult): void {
 
 /**
  * Fetches search results from the GBI Search API.
+ * When the transport has a search cache, a fresh cached response is returned without a network call.
+ * The cache only covers this GBI request; callers still enrich the records on a cache hit.
  *
- * @param shopTenant - The shop tenant identifier.
- * @param appEnv - The application environment.
+ * @param transport - The transport providing the endpoint and fetch implementation.
  * @param gbiSearchArgs - The search arguments built by `buildSearchArguments`.
+ * @param signal - Optional AbortSignal to cancel the request.
  * @returns A promise that resolves to the search results.
  *
- * @throws Will throw an error if the network response is not ok.
+ * @throws {GbiNetworkError | GbiHttpError | GbiParseError} If the request fails (see `requestGbiJson`).
  */
 export async function fetchSearchResults(
-  shopTenant: string,
-  appEnv: AppEnv,
-  gbiSearchArgs: FetchSearchResultsArgs
+  transport: GbiTransport,
+  gbiSearchArgs: FetchSearchResultsArgs,
+  signal?: AbortSignal
 ): Promise<SearchResult> {
-  const endpoint = `https://${appEnv === AppEnv.Production ? AppEnv.ProxyProd : AppEnv.ProxyDev}.groupbycloud.com/${shopTenant}/api/search`;
+  const cacheKey = transport.searchCache
+    ? buildSearchCacheKey(resolveGbiUrl(transport, 'search'), gbiSearchArgs)
+    : undefined;
+  const cached = cacheKey !== undefined ? transport.searchCache?.get(cacheKey) : undefined;
+  if (cached) {
+    debugLog('Search Cache', 'Cache hit', cacheKey);
+    return cached;
+  }
+
   const headers = {
     'Content-Type': 'application/json',
     'X-Application-Type': 'search',
-    'X-Groupby-Customer-Id': shopTenant,
+    'X-Groupby-Customer-Id': transport.shopTenant,
     'Skip-Caching': 'true',
   };
 
-  try {
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(gbiSearchArgs),
-    });
+  const products = await requestGbiJson<SearchResult>(transport, 'search', {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(gbiSearchArgs),
+    signal,
+  });
 
-    const products = await handleFetchResponse(response);
-    adjustRangeRefinements(products);
-    return products;
-  } catch (error) {
-    throw error;
+  reportSearchResponseDrift(products, resolveGbiUrl(transport, 'search'));
+  adjustRangeRefinements(products);
+  if (cacheKey !== undefined) {
+    transport.searchCache?.set(cacheKey, products);
   }
+  return products;
 }
 
 /**
@@ -108,7 +121,7 @@ export function parseSearchParams(urlParams: URLSearchParams): SearchParams {
   const sortBy = (urlParams.get(QueryParams.SortBy) as SortOrder) ?? DefaultValues.SortBy;
   const pageNumber = urlParams.get(QueryParams.PageNumber);
   const refinements = urlParams.getAll(QueryParams.Refinement).flatMap(refinement =>
-    refinement.split(',').filter(r => r.includes(':'))
+    parseRefinements(refinement).filter(r => r.includes(':'))
   );
 
   return { query, pageSize, sortBy, pageNumber, refinements };
@@ -117,55 +130,57 @@ export function parseSearchParams(urlParams: URLSearchParams): SearchParams {
 /**
  * Formats an array of refinement strings into an array of refinement objects.
  *
- * @param refinements - An array of refinement strings.
+ * @param refinements - An array of refinement strings (see `encodeRefinement`).
  * @returns An array of formatted refinement objects.
  */
-export function formatRefinements(refinements: string[]): Refinement[] {
+export function formatRefinements(refinements: readonly string[]): Refinement[] {
   return refinements
+    .map(decodeRefinement)
+    .filter((refinement): refinement is DecodedRefinement => refinement !== null)
     .map(refinement => {
-      const [navigationName, value] = refinement.split(':');
-      if (!navigationName || !value) return null;
-
-      const isRange = value.includes('--to--');
-      if (isRange) {
-        const [low, high] = value.split('--to--').map(Number);
+      if (refinement.type === RefinementType.Range) {
         return {
-          navigationName: decodeURIComponent(navigationName),
+          navigationName: refinement.navigationName,
           type: RefinementType.Range,
           displayName: "refinement",
           or: true,
-          low,
-          high: high + 0.01,
-        } as Refinement;
-      } else {
-        return {
-          navigationName: decodeURIComponent(navigationName),
-          type: RefinementType.Value,
-          displayName: "refinement",
-          or: true,
-          value: decodeURIComponent(value),
-        } as Refinement;
+          low: refinement.low,
+          high: refinement.high + 0.01,
+        };
       }
-    })
-    .filter((refinement): refinement is Refinement => refinement !== null);
+      return {
+        navigationName: refinement.navigationName,
+        type: RefinementType.Value,
+        displayName: "refinement",
+        or: true,
+        value: refinement.value,
+      };
+    });
 }
 
 /**
  * Parses the sort parameter string into an array of sort objects.
+ * Multiple `field-order` pairs are separated by commas; the order follows the last hyphen,
+ * so field names may contain hyphens (e.g. `compare-at-price-asc`).
  *
  * @param sortString - The sort parameter string.
  * @returns An array of sort objects.
  */
 export function parseSortParameter(sortString: string = ''): SortObject[] {
-  const [field, order] = sortString.split('-');
-  if (!field || !order) return [];
-
-  const sortOrder = (order.toLowerCase() as SortOrder);
-
-  return [{
-    field,
-    order: sortOrder,
-  }];
+  return sortString
+    .split(',')
+    .map(pair => {
+      const separatorIndex = pair.lastIndexOf('-');
+      const field = pair.slice(0, separatorIndex).trim();
+      const order = pair.slice(separatorIndex + 1).trim();
+      if (separatorIndex === -1 || !field || !order) return null;
+
+      return {
+        field,
+        order: (order.toLowerCase() as SortOrder),
+      };
+    })
+    .filter((sort): sort is SortObject => sort !== null);
 }
 
 /**
@@ -222,48 +237,45 @@ export function getNextPageNumber(isMore: boolean, currentPageNumber: string): s
  * @returns An array of product handles.
  */
 export function buildProductHandles(products: Products): string[] {
-  return products.records.map((record: ProductRecord) => {
-    if (record.allMeta?.attributes?.handle?.text?.length) {
-      return record.allMeta.attributes.handle.text[0];
-    }
-    return record.allMeta?.title;
-  });
+  return products.records.map(getRecordHandle);
+}
+
+/**
+ * Returns the Shopify handle of a search record: its `handle` attribute, or its title when the attribute is missing.
+ *
+ * @param record - The search record.
+ * @returns The product handle.
+ */
+export function getRecordHandle(record: ProductRecord): string {
+  if (record.allMeta?.attributes?.handle?.text?.length) {
+    return record.allMeta.attributes.handle.text[0];
+  }
+  return record.allMeta?.title;
 }
 
 /**
  * Fetches detailed product data from Shopify given an array of product handles.
  *
  * @param handles - An array of Shopify product handles.
- * @returns A promise that resolves to an object containing the fetched product details.
+ * @param shopifyConfig - Storefront API configuration; when absent the AJAX `/products/{handle}.js` endpoint is used,
+ *   under the locale root of the current page (`window.Shopify.routes.root`, e.g. `/fr-ca/products/{handle}.js`).
+ * @param retryPolicy - Optional timeout and retry policy. Defaults to `DEFAULT_RETRY_POLICY`.
+ * @param signal - Optional AbortSignal to cancel the lookups.
+ * @param fetchFn - Optional fetch implementation, e.g. the client's `enricherFetch`. Defaults to the global `fetch`.
+ * @returns A promise that resolves to one product per handle, in handle order (`null` for handles that were not found).
  */
-export async function fetchProductDetails(handles: string[], shopifyConfig: ShopifyConfig): Promise<ProductDetailsResult> {
+export async function fetchProductDetails(
+  handles: string[],
+  shopifyConfig: ShopifyConfig | undefined,
+  retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal,
+  fetchFn?: FetchFn
+): Promise<ProductDetailsResult> {
 
   if (shopifyConfig) {
-    return fetchStorefrontProducts(handles, shopifyConfig);
-  } else {
-    const promises = handles.map(async handle => {
-      try {
-        const url = `/products/${handle}.js`;
-        const response = await fetch(url);
-        if (!response.ok) {
-          console.warn(`Could not find ${handle}`);
-          return null;
-        }
-        const data = await response.json() as ProductDetail;
-        return data;
-      } catch (e) {
-        console.warn(`Error fetching ${handle}`, e);
-        return null;
-      }
-    });
-
-    const products = await Promise.all(promises);
-
-    // Filter out any null or undefined products
-    const validProducts = products.filter(product => product !== null && product !== undefined);
-
-    return { products: validProducts };
+    return fetchStorefrontProducts(handles, shopifyConfig, retryPolicy, signal, fetchFn);
   }
+  return fetchAjaxProducts(handles, retryPolicy, signal, fetchFn);
 }
 
 /**
@@ -285,68 +297,173 @@ export function reorderVariantsByRelevancy(shopifyProducts: ProductDetail[], sit
       return product;
     }
 
-    // Extract the relevant variant IDs from the Site Search product
-    const relevantVariantIds = siteSearchProduct.allMeta?.variants.map((variant: { id: string }) => variant.id.toString());
+    return mergeProductWithRecord(product, siteSearchProduct);
+  });
+}
 
-    if (!relevantVariantIds) {
-      // If no relevant variant IDs are found, return the product as is
-      return product;
-    }
+/**
+ * Merges a Shopify product with its search record: record fields are layered over the product, except for
+ * the images and media, and the variants are reordered to follow the relevancy order of the record.
+ * This is the default merge of the built-in Shopify enrichers.
+ *
+ * @param product - The Shopify product.
+ * @param siteSearchProduct - The search record of the product.
+ * @returns The merged product.
+ */
+export function mergeProductWithRecord(product: ProductDetail, siteSearchProduct: ProductRecord): ProductDetail {
+  // Extract the relevant variant IDs from the Site Search product
+  const relevantVariantIds = siteSearchProduct.allMeta?.variants?.map(variant => variant.id.toString());
 
-    // Reorder variants so that they match the order of relevant variant IDs from the Site Search product
-    const reorderedVariants = relevantVariantIds
-      .map(id => product.variants.find(variant => variant.id.toString() === id))
-      .filter((variant): variant is ProductVariant => Boolean(variant));
-
-    // Include the remaining variants that were not in the relevant list
-    const remainingVariants = product.variants.filter(variant => !relevantVariantIds.includes(variant.id.toString()));
-
-    return {
-      ...product,
-      ...siteSearchProduct,
-      // Preserve critical Shopify fields that the front-end depends on
-      // These must not be overwritten by siteSearchProduct (CCAPI data)
-      featured_image: product.featured_image,
-      media: product.media,
-      images: product.images,
-      variants: [...reorderedVariants, ...remainingVariants],
-    };
-  });
+  if (!relevantVariantIds) {
+    // If no relevant variant IDs are found, return the product as is
+    return product;
+  }
+
+  // Reorder variants so that they match the order of relevant variant IDs from the Site Search product
+  const reorderedVariants = relevantVariantIds
+    .map(id => product.variants.find(variant => variant.id.toString() === id))
+    .filter((variant): variant is ProductVariant => Boolean(variant));
+
+  // Include the remaining variants that were not in the relevant list
+  const remainingVariants = product.variants.filter(variant => !relevantVariantIds.includes(variant.id.toString()));
+
+  return {
+    ...product,
+    ...siteSearchProduct,
+    // Preserve critical Shopify fields that the front-end depends on
+    // These must not be overwritten by siteSearchProduct (CCAPI data)
+    featured_image: product.featured_image,
+    media: product.media,
+    images: product.images,
+    variants: [...reorderedVariants, ...remainingVariants],
+  };
 }
 
 /**
- * Transforms the site search products by merging with Shopify product details and reordering product variants for relevancy.
+ * Builds a stand-in for a Shopify product that could not be loaded, from its GBI record.
+ * The placeholder is unavailable and has no variants, so it can be rendered but not added to the cart.
+ *
+ * @param record - The GBI record.
+ * @param handle - The product handle.
+ * @returns The placeholder product.
+ */
+export function buildPlaceholderProduct(record: ProductRecord, handle: string | undefined): ProductDetail {
+  const id = parseInt(record.allMeta?.id ?? '', 10);
+  return {
+    id: Number.isNaN(id) ? 0 : id,
+    title: record.allMeta?.title ?? '',
+    handle: handle ?? '',
+    description: '',
+    published_at: '',
+    created_at: '',
+    vendor: '',
+    type: '',
+    tags: [],
+    price: 0,
+    price_min: 0,
+    price_max: 0,
+    available: false,
+    price_varies: false,
+    compare_at_price: null,
+    compare_at_price_min: 0,
+    compare_at_price_max: 0,
+    compare_at_price_varies: false,
+    variants: [],
+    images: [],
+    featured_image: '',
+    options: [],
+    url: handle ? `/products/${handle}` : '',
+    media: [],
+    requires_selling_plan: false,
+    selling_plan_groups: [],
+  };
+}
+
+/**
+ * Transforms the site search products by enriching them, by default with Shopify product details whose variants
+ * are reordered for relevancy. Records the enricher has no data for are handled according to `missingProductPolicy`.
  *
  * @param siteSearchProducts - The products data from the site search API.
- * @returns A promise that resolves to an array of Shopify products with reordered variants.
+ * @param enricher - The enrichment strategy (see `createDefaultEnricher`).
+ * @param context - The retry policy, abort signal and fetch implementation for the enrichment lookups.
+ * @param missingProductPolicy - Optional policy for records without enrichment data. Defaults to `drop`.
+ * @returns A promise that resolves to the merged products, in record order, and a summary of the merge.
+ * @throws Throws an error if the enricher does not return one entry per record.
  */
-export async function transformProductsForVariantRelevancy(siteSearchProducts: Products, shopifyConfig: ShopifyConfig): Promise<ProductDetail[]> {
+export async function transformProductsForVariantRelevancy(
+  siteSearchProducts: Products,
+  enricher: ProductEnricher,
+  context: EnrichmentContext,
+  missingProductPolicy: MissingProductPolicy = 'drop'
+): Promise<MergeResult> {
+  const records = siteSearchProducts.records ?? [];
   const handles = buildProductHandles(siteSearchProducts);
 
-  // Fetch product details from Shopify
-  const { products: shopifyProducts } = await fetchProductDetails(handles, shopifyConfig);
+  // Enrich the records (one entry per record, null when there is no data for it)
+  const enrichedProducts = records.length
+    ? await enricher.enrich(records, context)
+    : [];
+  if (enrichedProducts.length !== records.length) {
+    throw new Error(`Product enricher "${enricher.name}" returned ${enrichedProducts.length} products for ${records.length} records`);
+  }
+
+  const products: SearchProduct[] = [];
+  const outcomes: MergeRecordOutcome[] = [];
+  const missingHandles: string[] = [];
+  records.forEach((record, index) => {
+    const handle = handles[index];
+    let outcome: MergeOutcome;
+    const enrichedProduct = enrichedProducts[index];
+    if (enrichedProduct) {
+      outcome = 'merged';
+      products.push(enrichedProduct);
+    } else {
+      missingHandles.push(handle);
+      if (missingProductPolicy === 'keep-gbi-record') {
+        outcome = 'gbi-fallback';
+        products.push(record);
+      } else {
+        outcome = 'shopify-missing';
+        if (missingProductPolicy === 'placeholder') {
+          products.push(buildPlaceholderProduct(record, handle));
+        }
+      }
+    }
+    outcomes.push({ recordId: record.allMeta?.id, handle, outcome });
+  });
 
-  if (!shopifyProducts || shopifyProducts.length === 0) {
-    return [];
+  const counts: Record<MergeOutcome, number> = { 'merged': 0, 'shopify-missing': 0, 'gbi-fallback': 0 };
+  outcomes.forEach(({ outcome }) => counts[outcome]++);
+  if (missingHandles.length) {
+    debugLog('Merge', `${missingHandles.length} of ${records.length} products not found by the ${enricher.name} enricher (policy: ${missingProductPolicy})`, missingHandles);
   }
 
-  // Reorder variants within each product based on relevancy from Site Search API
-  const reorderedProducts = reorderVariantsByRelevancy(shopifyProducts, siteSearchProducts.records);
-  return reorderedProducts;
+  return {
+    products,
+    diagnostics: {
+      enricher: enricher.name,
+      policy: missingProductPolicy,
+      records: records.length,
+      returned: products.length,
+      counts,
+      missingHandles,
+      outcomes,
+    },
+  };
 }
 
 /**
  * Builds the preFilter string used in the search arguments.
  *
- * @param collectionId - The optional collection ID.
+ * @param collectionId - The optional collection ID; on collection pages results are restricted to the collection.
+ * @param filter - Optional pre-filter replacing the default in-stock filter (pass `preFilter.and()` for no filter).
  * @returns The preFilter string for a 'standard' or 'collections' page, respectively.
  */
-export function buildPreFilter(collectionId: string | undefined): string {
-  const availabilityFilter = 'availability:ANY("IN_STOCK")'; // TODO: move to constants
+export function buildPreFilter(collectionId: string | undefined, filter: PreFilter = IN_STOCK_PRE_FILTER): string {
   if (collectionId) {
-    return `attributes.collections:ANY("${collectionId}") AND ${availabilityFilter}`;
+    return serializePreFilter(preFilter.and(preFilter.any('attributes.collections', [collectionId]), filter));
   }
-  return availabilityFilter;
+  return serializePreFilter(filter);
 }
 
 /**
@@ -362,8 +479,14 @@ interface BuildSearchArgsOptions {
   page: number;         // 1,2,3
   pageSize: number;     // 12,24,...
   sortBy: string;       // 'relevance','price-asc', etc
-  refinements: string[];
+  refinements: readonly string[];
   collectionId?: string;
+  sortCatalog?: SortCatalog; // when set, sortBy is a sort option id
+  preFilter?: PreFilter; // replaces the default in-stock pre-filter
+  fields?: readonly string[]; // record fields to return; all fields when omitted
+  dynamicFacet?: boolean;
+  biasing?: Biasing;
+  identity?: VisitorIdentity; // visitor, session and customer ids for personalization
 }
 
 export function buildSearchArguments(options: BuildSearchArgsOptions): FetchSearchResultsArgs {
@@ -374,10 +497,14 @@ export function buildSearchArguments(options: BuildSearchArgsOptions): FetchSear
     collection: options.collection,
     area: options.area,
     pageSize: options.pageSize,
-    sorts: parseSortParameter(options.sortBy),
-    fields: ["*"],
-    dynamicFacet: false,
-    preFilter: buildPreFilter(options.collectionId),
+    sorts: options.sortCatalog
+      ? options.sortCatalog.resolve(options.sortBy).sorts
+      : parseSortParameter(options.sortBy),
+    fields: options.fields?.length ? [...options.fields] : ["*"],
+    dynamicFacet: options.dynamicFacet ?? false,
+    ...(options.biasing ? { biasing: options.biasing } : {}),
+    ...(options.identity ?? {}),
+    preFilter: buildPreFilter(options.collectionId, options.preFilter),
     skip,
     refinements: formatRefinements(options.refinements),
   };
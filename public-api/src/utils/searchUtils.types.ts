@@ -1,3 +1,7 @@
+import type { GbiRecord, SearchResult } from './searchResponse.types';
+
+export type { SearchResult };
+
 export enum RefinementType {
   Range = 'Range',
   Value = 'Value',
@@ -52,6 +56,48 @@ export interface SortObject {
   order: SortOrder;
 }
 
+/**
+ * How strongly a bias moves matching records up or down the result list.
+ */
+export type BiasStrength =
+  | 'Absolute_Increase'
+  | 'Strong_Increase'
+  | 'Medium_Increase'
+  | 'Weak_Increase'
+  | 'Leave_Unchanged'
+  | 'Weak_Decrease'
+  | 'Medium_Decrease'
+  | 'Strong_Decrease'
+  | 'Absolute_Decrease';
+
+/**
+ * Boosts (or buries) records whose field `name` has the value `content`.
+ */
+export interface Bias {
+  name: string;
+  content: string;
+  strength: BiasStrength;
+}
+
+/**
+ * Biasing rules applied on top of relevance and merchandising rules.
+ */
+export interface Biasing {
+  /**
+   * Record IDs to pin to the top of the results, in order.
+   */
+  bringToTop?: string[];
+  /**
+   * Whether these biases are added to the ones configured in merchandising rules (true) or replace them.
+   */
+  augmentBiases?: boolean;
+  /**
+   * How much the biases weigh against relevance.
+   */
+  influence?: number;
+  biases?: Bias[];
+}
+
 export interface FetchSearchResultsArgs {
   query: string;
   collection?: string;
@@ -60,16 +106,13 @@ export interface FetchSearchResultsArgs {
   sorts: SortObject[];
   fields?: string[];
   dynamicFacet?: boolean;
+  biasing?: Biasing;
   preFilter?: string;
   skip: number;
   refinements: Refinement[];
-}
-
-export interface SearchResult {
-  records: any[];
-  totalRecordCount: number;
-  originalRequest: any;
-  selectedNavigation?: any[];
+  visitorId?: string;
+  sessionId?: string;
+  loginId?: string;
 }
 
 export interface SearchBeaconType {
@@ -85,16 +128,10 @@ export interface ModifiedQueryResult {
   searchBeaconType: SearchBeaconType;
 }
 
-export interface ProductRecord {
-  allMeta: {
-    attributes: {
-      handle: {
-        text: string[];
-      };
-    };
-    title: string;
-  };
-}
+/**
+ * A GBI search record (see {@link GbiRecord}).
+ */
+export type ProductRecord = GbiRecord;
 
 export interface Products {
   records: ProductRecord[];
@@ -115,13 +152,13 @@ export interface ProductVariant {
   featured_image: string | null;
   available: boolean;
   name: string;
-  public_title: string;
+  public_title: string | null;
   options: string[];
   price: number;
   weight: number;
   compare_at_price: number | null;
-  inventory_management: string;
-  barcode: string;
+  inventory_management: string | null;
+  barcode: string | null;
   quantity_rule: {
     min: number;
     max: number | null;
@@ -129,7 +166,58 @@ export interface ProductVariant {
   };
   quantity_price_breaks: any[];
   requires_selling_plan: boolean;
-  selling_plan_allocations: any[];
+  selling_plan_allocations: SellingPlanAllocation[];
+  /**
+   * Metafields requested through `ShopifyConfig.variantMetafields`, keyed by `namespace.key`.
+   * Only set for products fetched through the Storefront API.
+   */
+  metafields?: Record<string, ProductMetafield>;
+  /**
+   * Fields selected by `ShopifyConfig.variantFragment`, as returned by the Storefront API.
+   */
+  fragment_fields?: Record<string, unknown>;
+}
+
+/**
+ * A Storefront metafield. `value` is the raw string value; parse it according to `type`
+ * (e.g. `JSON.parse` for `json` metafields).
+ */
+export interface ProductMetafield {
+  namespace: string;
+  key: string;
+  value: string;
+  type: string;
+}
+
+export interface SellingPlanPriceAdjustment {
+  order_count: number | null;
+  position: number;
+  value_type: 'percentage' | 'fixed_amount' | 'price';
+  value: number;
+}
+
+export interface SellingPlan {
+  id: number;
+  name: string;
+  description: string | null;
+  options: { name: string; position: number; value: string }[];
+  recurring_deliveries: boolean;
+  price_adjustments: SellingPlanPriceAdjustment[];
+}
+
+export interface SellingPlanGroup {
+  name: string;
+  app_id: string | null;
+  options: { name: string; position: number; values: string[] }[];
+  selling_plans: SellingPlan[];
+}
+
+export interface SellingPlanAllocation {
+  selling_plan_id: number;
+  price: number;
+  compare_at_price: number | null;
+  per_delivery_price: number;
+  price_adjustments: { position: number; price: number }[];
 }
 
 export interface ProductImage {
@@ -185,9 +273,68 @@ export interface ProductDetail {
   url: string;
   media: ProductMedia[];
   requires_selling_plan: boolean;
-  selling_plan_groups: any[];
+  selling_plan_groups: SellingPlanGroup[];
+  /**
+   * Metafields requested through `ShopifyConfig.productMetafields`, keyed by `namespace.key`.
+   * Only set for products fetched through the Storefront API.
+   */
+  metafields?: Record<string, ProductMetafield>;
+  /**
+   * Fields selected by `ShopifyConfig.productFragment`, as returned by the Storefront API.
+   */
+  fragment_fields?: Record<string, unknown>;
 }
 
 export interface ProductDetailsResult {
   products: (ProductDetail | null)[];
 }
+
+/**
+ * What happens to a search record whose Shopify product could not be loaded when merging:
+ * - `drop`: the record is left out of the merged products.
+ * - `keep-gbi-record`: the raw GBI record takes its place.
+ * - `placeholder`: a `ProductDetail` built from the GBI record takes its place (unavailable, without variants).
+ */
+export type MissingProductPolicy = 'drop' | 'keep-gbi-record' | 'placeholder';
+
+/**
+ * The outcome of merging one search record: `merged` with its Shopify product (or other enrichment data),
+ * `shopify-missing` when the product was not found (dropped or replaced by a placeholder), or `gbi-fallback`
+ * when the GBI record was kept.
+ */
+export type MergeOutcome = 'merged' | 'shopify-missing' | 'gbi-fallback';
+
+export interface MergeRecordOutcome {
+  recordId: string | undefined;
+  handle: string | undefined;
+  outcome: MergeOutcome;
+}
+
+/**
+ * Summary of the Shopify merge step of a search.
+ */
+export interface MergeDiagnostics {
+  /** Name of the enricher that loaded the products, e.g. `storefront-graphql`. */
+  enricher: string;
+  policy: MissingProductPolicy;
+  /** Number of search records. */
+  records: number;
+  /** Number of products returned after applying the policy. */
+  returned: number;
+  counts: Record<MergeOutcome, number>;
+  /** Handles whose Shopify product was not found. */
+  missingHandles: string[];
+  /** One outcome per search record, in record order. */
+  outcomes: MergeRecordOutcome[];
+}
+
+export interface MergeResult {
+  products: SearchProduct[];
+  diagnostics: MergeDiagnostics;
+}
+
+/**
+ * A product in a search response: a Shopify product merged with its GBI record when merging
+ * is enabled, or the raw GBI record otherwise.
+ */
+export type SearchProduct = ProductDetail | ProductRecord;
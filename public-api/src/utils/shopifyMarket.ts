@@ -0,0 +1,70 @@
+import { debugLog } from './debugLogger';
+
+/**
+ * The Shopify Markets context a storefront is browsed in.
+ */
+export interface ShopifyMarket {
+  /** Buyer country as a Storefront `CountryCode`, e.g. "CA". */
+  country?: string;
+  /** Storefront language as a Storefront `LanguageCode`, e.g. "FR" or "PT_BR". */
+  language?: string;
+  /** Root of locale-aware storefront URLs, always ending in a slash, e.g. "/fr-ca/". */
+  routesRoot: string;
+}
+
+/**
+ * The parts of the `window.Shopify` object set by Online Store themes that describe the market.
+ */
+interface ShopifyGlobal {
+  country?: string;
+  locale?: string;
+  routes?: { root?: string };
+}
+
+// Regional languages the Storefront API `LanguageCode` enum distinguishes; other regions fall back to the language.
+const REGIONAL_LANGUAGE_CODES = new Set(['PT_BR', 'PT_PT', 'ZH_CN', 'ZH_TW']);
+
+function getShopifyGlobal(): ShopifyGlobal | undefined {
+  return (globalThis as { Shopify?: ShopifyGlobal }).Shopify;
+}
+
+function toCountryCode(country: string | undefined): string | undefined {
+  if (!country) return undefined;
+  if (!/^[A-Za-z]{2}$/.test(country)) {
+    debugLog('Market', `Ignoring invalid country "${country}"`);
+    return undefined;
+  }
+  return country.toUpperCase();
+}
+
+function toLanguageCode(language: string | undefined): string | undefined {
+  if (!language) return undefined;
+  const match = /^([A-Za-z]{2,3})(?:[-_]([A-Za-z]{2,4}))?$/.exec(language);
+  if (!match) {
+    debugLog('Market', `Ignoring invalid language "${language}"`);
+    return undefined;
+  }
+  const base = match[1].toUpperCase();
+  const regional = match[2] ? `${base}_${match[2].toUpperCase()}` : base;
+  return REGIONAL_LANGUAGE_CODES.has(regional) ? regional : base;
+}
+
+/**
+ * Resolves the market to load Shopify products in. Explicit values win; otherwise the country,
+ * locale and routes root are read from `window.Shopify` when the SDK runs inside a Shopify theme.
+ *
+ * @param overrides - Optional country (ISO 3166-1 alpha-2) and language (ISO 639-1, optionally with a region).
+ * @returns The market, with codes normalized for the Storefront API.
+ *
+ * @example
+ * resolveShopifyMarket({ country: "ca", language: "fr" }); // { country: "CA", language: "FR", routesRoot: "/fr-ca/" } on a /fr-ca/ page
+ */
+export function resolveShopifyMarket(overrides: { country?: string; language?: string } = {}): ShopifyMarket {
+  const shopify = getShopifyGlobal();
+  const root = shopify?.routes?.root || '/';
+  return {
+    country: toCountryCode(overrides.country ?? shopify?.country),
+    language: toLanguageCode(overrides.language ?? shopify?.locale),
+    routesRoot: root.endsWith('/') ? root : `${root}/`,
+  };
+}
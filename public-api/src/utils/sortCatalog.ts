@@ -0,0 +1,70 @@
+import type { SortObject } from './searchUtils.types';
+
+/**
+ * A named sort choice, e.g. "Best match then newest". Sorts are applied in order.
+ * An empty `sorts` array sorts by relevance.
+ */
+export interface SortOption {
+  id: string;
+  label: string;
+  sorts: SortObject[];
+}
+
+/**
+ * The sort choices offered to shoppers. Sort ids (not raw sort expressions) are what
+ * the URL and the Input Store carry.
+ */
+export interface SortCatalog {
+  readonly options: readonly SortOption[];
+  readonly defaultId: string;
+  /**
+   * Returns the option with the given id, if registered.
+   */
+  get(id: string | null | undefined): SortOption | undefined;
+  /**
+   * Returns the option with the given id, or the default option when the id is unknown.
+   */
+  resolve(id: string | null | undefined): SortOption;
+}
+
+/**
+ * Creates a sort catalog.
+ *
+ * @param options - The sort options, in display order.
+ * @param defaultId - Optional id of the default option; defaults to the first option.
+ * @returns The sort catalog.
+ * @throws Throws an error if there are no options, an id is registered twice or `defaultId` is unknown.
+ *
+ * @example
+ * const sortCatalog = createSortCatalog([
+ *   { id: "relevance", label: "Best match", sorts: [] },
+ *   { id: "best-then-newest", label: "Best match then newest", sorts: [
+ *     { field: "_relevance", order: SortOrder.Descending },
+ *     { field: "published_at", order: SortOrder.Descending },
+ *   ] },
+ *   { id: "price-asc", label: "Price, low to high", sorts: [{ field: "price", order: SortOrder.Ascending }] },
+ * ]);
+ */
+export function createSortCatalog(options: SortOption[], defaultId: string = options[0]?.id): SortCatalog {
+  if (options.length === 0) {
+    throw new Error('A sort catalog needs at least one option');
+  }
+  const byId = new Map<string, SortOption>();
+  for (const option of options) {
+    if (byId.has(option.id)) {
+      throw new Error(`Duplicate sort option id "${option.id}"`);
+    }
+    byId.set(option.id, option);
+  }
+  const defaultOption = byId.get(defaultId);
+  if (!defaultOption) {
+    throw new Error(`Unknown default sort option "${defaultId}"`);
+  }
+
+  return {
+    options: [...options],
+    defaultId,
+    get: (id) => (id ? byId.get(id) : undefined),
+    resolve: (id) => (id ? byId.get(id) : undefined) ?? defaultOption,
+  };
+}
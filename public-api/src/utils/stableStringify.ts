@@ -0,0 +1,19 @@
+/**
+ * Serializes a value with object keys sorted and `undefined` properties dropped,
+ * so that equivalent objects yield the same string. Used to build request keys.
+ *
+ * @param value - The value to serialize.
+ * @returns The serialized value.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,130 @@
+import { debugLog } from './debugLogger';
+
+/**
+ * What the shopper consented to.
+ */
+export interface TrackingConsent {
+  /** Analytics processing: required to send beacons. */
+  analytics: boolean;
+  /** Preferences processing (personalization): required to persist visitor and session ids. */
+  preferences: boolean;
+}
+
+/**
+ * A source of shopper consent. `getConsent` returns `undefined` while the shopper has not decided yet.
+ */
+export interface ConsentProvider {
+  getConsent(): TrackingConsent | undefined;
+  /**
+   * Calls `listener` whenever the consent changes.
+   *
+   * @returns A function removing the listener.
+   */
+  subscribe(listener: (consent: TrackingConsent | undefined) => void): () => void;
+}
+
+/**
+ * A consent provider backed by a callback of the storefront's own consent banner.
+ */
+export interface CallbackConsentProvider extends ConsentProvider {
+  /**
+   * Notifies subscribers; call it after the consent returned by the callback changed.
+   */
+  refresh(): void;
+}
+
+/**
+ * The parts of Shopify's Customer Privacy API (`window.Shopify.customerPrivacy`) the SDK relies on.
+ */
+interface ShopifyCustomerPrivacy {
+  analyticsProcessingAllowed(): boolean;
+  preferencesProcessingAllowed(): boolean;
+  shouldShowBanner?(): boolean;
+  currentVisitorConsent?(): { analytics?: string; preferences?: string };
+}
+
+interface ShopifyPrivacyGlobal {
+  customerPrivacy?: ShopifyCustomerPrivacy;
+  loadFeatures?(features: { name: string; version: string }[], callback: (error?: unknown) => void): void;
+}
+
+// Event Shopify dispatches on `document` when the shopper submits the consent banner.
+const CONSENT_COLLECTED_EVENT = 'visitorConsentCollected';
+
+function createListeners() {
+  const listeners = new Set<(consent: TrackingConsent | undefined) => void>();
+  return {
+    subscribe(listener: (consent: TrackingConsent | undefined) => void) {
+      listeners.add(listener);
+      return () => void listeners.delete(listener);
+    },
+    notify(consent: TrackingConsent | undefined) {
+      listeners.forEach(listener => listener(consent));
+    },
+  };
+}
+
+/**
+ * Creates a consent provider reading Shopify's Customer Privacy API. The API is loaded when the theme has not
+ * loaded it yet, and changes made through the consent banner are picked up at runtime. Consent is pending
+ * (`undefined`) until the API is available and, where a banner is shown, until the shopper answers it.
+ *
+ * @returns The consent provider.
+ *
+ * @example
+ * const consent = createShopifyConsent();
+ * const identity = createIdentityManager({ consent });
+ * const beaconTracker = createBeaconTracker({ shopTenant: "shop123", endpoint: "/apps/analytics/beacons", consent });
+ */
+export function createShopifyConsent(): ConsentProvider {
+  const getShopify = () => (globalThis as { Shopify?: ShopifyPrivacyGlobal }).Shopify;
+  const { subscribe, notify } = createListeners();
+
+  const getConsent = (): TrackingConsent | undefined => {
+    const privacy = getShopify()?.customerPrivacy;
+    if (!privacy) return undefined;
+    const consent = {
+      analytics: privacy.analyticsProcessingAllowed(),
+      preferences: privacy.preferencesProcessingAllowed(),
+    };
+    // Where a banner is required, an empty answer means the shopper has not decided yet.
+    const undecided = privacy.shouldShowBanner?.() && privacy.currentVisitorConsent?.().analytics === '';
+    return undecided && !consent.analytics ? undefined : consent;
+  };
+
+  const shopify = getShopify();
+  if (shopify && !shopify.customerPrivacy) {
+    shopify.loadFeatures?.([{ name: 'consent-tracking-api', version: '0.1' }], error => {
+      if (error) {
+        debugLog('Consent', 'Could not load the Customer Privacy API', error);
+        return;
+      }
+      notify(getConsent());
+    });
+  }
+  (globalThis as { document?: Document }).document?.addEventListener(CONSENT_COLLECTED_EVENT, () => {
+    debugLog('Consent', 'Consent collected', getConsent());
+    notify(getConsent());
+  });
+
+  return { getConsent, subscribe };
+}
+
+/**
+ * Creates a consent provider backed by a callback, for storefronts using their own consent management.
+ *
+ * @param getConsent - Returns the current consent, or `undefined` while the shopper has not decided.
+ * @returns The consent provider; call `refresh()` whenever the consent changes.
+ *
+ * @example
+ * const consent = createCallbackConsent(() => cmp.hasAnswered() ? { analytics: cmp.allows("analytics"), preferences: cmp.allows("personalization") } : undefined);
+ * cmp.onChange(() => consent.refresh());
+ */
+export function createCallbackConsent(getConsent: () => TrackingConsent | undefined): CallbackConsentProvider {
+  const { subscribe, notify } = createListeners();
+  return {
+    getConsent,
+    subscribe,
+    refresh: () => notify(getConsent()),
+  };
+}
@@ -0,0 +1,43 @@
+import { createStore, createEvent } from 'effector';
+import type { UpdateStateFn } from './types';
+import { debugLog } from './debugLogger';
+
+/**
+ * Interface defining the input parameters for autocomplete requests.
+ */
+export interface AutocompleteParams {
+  query: string; // What the shopper has typed so far, or the term of the selected suggestion
+  fromSelection?: boolean; // True when `query` was set by selecting a suggestion; no suggestions are requested for it
+}
+
+/**
+ * Initial state for the AutocompleteParams store.
+ */
+const initialAutocompleteParams: AutocompleteParams = {
+  query: '',
+};
+
+/**
+ * Type alias for the updater function that modifies AutocompleteParams.
+ */
+export type AutocompleteParamsUpdater = UpdateStateFn<AutocompleteParams>;
+
+// Create an event that accepts an updater function for AutocompleteParams.
+export const updateAutocompleteParams = createEvent<AutocompleteParamsUpdater>();
+
+// Create the Effector store using the initial state and handle updates via the updater event.
+export const autocompleteInputStore = createStore<AutocompleteParams>(initialAutocompleteParams)
+  .on(updateAutocompleteParams, (state, updater: AutocompleteParamsUpdater): AutocompleteParams => {
+    const newState = updater(state);
+    debugLog('Autocomplete Input Store', 'Updated state:', newState);
+    return newState;
+  });
+
+/**
+ * A helper function that acts as an abstract updater for the Autocomplete Input Store.
+ *
+ * @param updater - A callback that receives the current state and returns the new state.
+ */
+export const updateAutocompleteInputStore = (updater: AutocompleteParamsUpdater): void => {
+  updateAutocompleteParams(updater);
+};
@@ -0,0 +1,187 @@
+import { createEffect } from 'effector';
+import { autocompleteInputStore } from './autocompleteInputStore';
+import type { AutocompleteParams } from './autocompleteInputStore';
+import { initialAutocompleteOutput, updateAutocompleteOutputStore } from './autocompleteOutputStore';
+import { createGbiClient, setDebugLogging, toGbiErrorInfo } from '@rzlv/public-api-sdk';
+import type {
+  AppEnv,
+  AutocompleteResponse,
+  BeaconTracker,
+  GbiClient,
+  IdentityManager,
+  ProductEnricher,
+  RetryPolicy,
+} from '@rzlv/public-api-sdk';
+import type { ShopifyConfig } from '@rzlv/public-api-sdk/fetchSfProducts';
+import { debugLog, sdkConfig } from './debugLogger';
+
+/**
+ * Config for static autocomplete configuration values not subject to change via user interaction.
+ */
+export interface AutocompleteManagerConfig {
+  shopTenant: string;
+  appEnv: string;
+  collection: string;
+  area: string;
+  debug?: boolean;
+  minQueryLength?: number; // Queries shorter than this (trimmed) close the dropdown without a request (default 2)
+  debounceMs?: number; // Time to wait after the last keystroke before requesting suggestions (default 200)
+  searchItems?: number; // Number of query suggestions to return
+  dataset?: string;
+  productSuggestions?: number; // Number of product suggestions from an accompanying search (none by default)
+  mergeShopifyData?: boolean; // Merge Shopify data into product suggestions (default true)
+  shopifyConfig?: ShopifyConfig;
+  enricher?: ProductEnricher;
+  retry?: Partial<RetryPolicy>;
+  beaconTracker?: BeaconTracker; // Tracks suggestion selections (product previews are not tracked as searches)
+  identity?: IdentityManager;
+}
+
+const DEFAULT_MIN_QUERY_LENGTH = 2;
+const DEFAULT_DEBOUNCE_MS = 200;
+
+// Module-level variable to hold the static configuration.
+let autocompleteManagerConfig: AutocompleteManagerConfig | undefined;
+// Client bound to the configured tenant, environment and retry policy.
+let autocompleteClient: GbiClient;
+
+// Latest-wins sequencing, as in the Search Manager: only the most recent request may write to the Output Store,
+// and a new keystroke cancels both the pending debounce timer and the request in flight.
+let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+let latestAutocompleteParams: AutocompleteParams | null = null;
+let activeAutocompleteController: AbortController | null = null;
+
+/**
+ * Returns the autocomplete configuration, or undefined before `initAutocompleteManager` was called.
+ */
+export function getAutocompleteManagerConfig(): AutocompleteManagerConfig | undefined {
+  return autocompleteManagerConfig;
+}
+
+/**
+ * Cancels the pending debounce timer and the request in flight, so that no further results reach the Output Store.
+ */
+export function cancelAutocomplete(): void {
+  clearTimeout(debounceTimer);
+  debounceTimer = undefined;
+  activeAutocompleteController?.abort();
+  activeAutocompleteController = null;
+  latestAutocompleteParams = null;
+}
+
+// Create the effect that triggers the autocomplete API call.
+export const autocompleteFx = createEffect(
+  async (params: AutocompleteParams): Promise<AutocompleteResponse> => {
+    debugLog('Autocomplete Manager', 'autocompleteFx triggered with params', params);
+    const config = autocompleteManagerConfig as AutocompleteManagerConfig;
+    activeAutocompleteController?.abort();
+    const controller = new AbortController();
+    activeAutocompleteController = controller;
+    latestAutocompleteParams = params;
+
+    const options = {
+      query: params.query,
+      collection: config.collection,
+      area: config.area,
+      searchItems: config.searchItems,
+      dataset: config.dataset,
+      signal: controller.signal,
+    };
+    if (!config.productSuggestions) {
+      return (await autocompleteClient.requestAutocomplete(options)).autocomplete;
+    }
+    const { autocomplete } = await autocompleteClient.requestAutocompleteWithSearch({
+      ...options,
+      pageSize: config.productSuggestions,
+      mergeShopifyData: config.mergeShopifyData,
+      shopifyConfig: config.shopifyConfig,
+      enricher: config.enricher,
+    });
+    return autocomplete;
+  }
+);
+
+/**
+ * Explicitly initializes the Autocomplete Manager.
+ *
+ * Stores the static configuration and watches the autocompleteInputStore: every change schedules a request
+ * after the debounce window, unless the query is shorter than the minimum length. The done and fail handlers
+ * update the autocompleteOutputStore, discarding results of superseded requests.
+ *
+ * @param config - The static configuration values.
+ */
+export function initAutocompleteManager(config: AutocompleteManagerConfig): void {
+  // Add a guard so this is only initialized once.
+  if (autocompleteManagerConfig) {
+    return;
+  }
+  debugLog('Autocomplete Manager', 'Initializing with config', config);
+  autocompleteManagerConfig = config;
+  autocompleteClient = createGbiClient({
+    shopTenant: config.shopTenant,
+    appEnv: config.appEnv as AppEnv,
+    retry: config.retry,
+    beaconTracker: config.beaconTracker,
+    identity: config.identity,
+  });
+  if (config.debug !== undefined) {
+    sdkConfig.debug = config.debug;
+    setDebugLogging(config.debug);
+  }
+
+  const minQueryLength = config.minQueryLength ?? DEFAULT_MIN_QUERY_LENGTH;
+  const debounceMs = config.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+
+  autocompleteInputStore.updates.watch((params) => {
+    cancelAutocomplete();
+    if (params.fromSelection) {
+      debugLog('Autocomplete Manager', 'Query set from a selected suggestion, not requesting', params.query);
+      return;
+    }
+    if (params.query.trim().length < minQueryLength) {
+      debugLog('Autocomplete Manager', 'Query below minimum length, closing', params.query);
+      updateAutocompleteOutputStore(() => initialAutocompleteOutput);
+      return;
+    }
+    updateAutocompleteOutputStore((current) => ({ ...current, loading: true, error: null }));
+    debounceTimer = setTimeout(() => {
+      debounceTimer = undefined;
+      autocompleteFx(params);
+    }, debounceMs);
+  });
+
+  // When the autocomplete effect is done, show the suggestions of the latest request.
+  autocompleteFx.done.watch(({ result, params }) => {
+    if (params !== latestAutocompleteParams) {
+      debugLog('Autocomplete Manager', 'autocompleteFx done for a superseded request, discarding result');
+      return;
+    }
+    debugLog('Autocomplete Manager', 'autocompleteFx done:', result);
+    activeAutocompleteController = null;
+    updateAutocompleteOutputStore((current) => ({
+      ...current,
+      query: params.query,
+      response: result,
+      suggestions: [...result.querySuggestions, ...result.navigationSuggestions, ...result.productSuggestions],
+      highlightedIndex: -1,
+      isOpen: true,
+      loading: false,
+      error: null,
+    }));
+  });
+
+  // When the autocomplete effect fails, store the error unless the request was superseded.
+  autocompleteFx.fail.watch(({ error, params }) => {
+    if (params !== latestAutocompleteParams) {
+      debugLog('Autocomplete Manager', 'autocompleteFx failed for a superseded request, ignoring:', error);
+      return;
+    }
+    debugLog('Autocomplete Manager', 'autocompleteFx error:', error);
+    activeAutocompleteController = null;
+    updateAutocompleteOutputStore((current) => ({
+      ...current,
+      loading: false,
+      error: toGbiErrorInfo(error),
+    }));
+  });
+}
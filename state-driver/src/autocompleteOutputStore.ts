@@ -0,0 +1,79 @@
+import { createStore, createEvent } from 'effector';
+import { debugLog } from './debugLogger';
+import type { AutocompleteResponse, AutocompleteSuggestion, GbiErrorInfo } from '@rzlv/public-api-sdk';
+
+/**
+ * Defines the structure of the autocomplete state.
+ */
+export interface AutocompleteOutput {
+  /**
+   * The query the current suggestions are for.
+   */
+  query: string;
+  /**
+   * The latest autocomplete response (null before the first response and after the input is cleared).
+   */
+  response: AutocompleteResponse | null;
+  /**
+   * All suggestions in display order: query, navigation, then product suggestions.
+   * `highlightedIndex` points into this array.
+   */
+  suggestions: AutocompleteSuggestion[];
+  /**
+   * Index of the suggestion highlighted with the keyboard, or -1 when none is.
+   */
+  highlightedIndex: number;
+  /**
+   * Whether the dropdown should be shown.
+   */
+  isOpen: boolean;
+  /**
+   * Indicates whether an autocomplete request is currently in progress.
+   */
+  loading: boolean;
+  /**
+   * Structured error if the latest autocomplete request failed.
+   */
+  error: GbiErrorInfo | null;
+}
+
+// Define the initial state for the Output Store.
+export const initialAutocompleteOutput: AutocompleteOutput = {
+  query: '',
+  response: null,
+  suggestions: [],
+  highlightedIndex: -1,
+  isOpen: false,
+  loading: false,
+  error: null,
+};
+
+/**
+ * Type for a function that updates the AutocompleteOutput state.
+ */
+export type AutocompleteOutputUpdater = (state: AutocompleteOutput) => AutocompleteOutput;
+
+/**
+ * Creates an Effector event that accepts an updater function for the AutocompleteOutput state.
+ */
+export const updateAutocompleteOutput = createEvent<AutocompleteOutputUpdater>();
+
+/**
+ * Creates the Effector store for the autocomplete output using the initial state and handles updates
+ * via the updater event.
+ */
+export const autocompleteOutputStore = createStore<AutocompleteOutput>(initialAutocompleteOutput)
+  .on(updateAutocompleteOutput, (state, updater): AutocompleteOutput => updater(state));
+
+autocompleteOutputStore.watch((state) => {
+  debugLog('Autocomplete Output Store', 'Updated state:', state);
+});
+
+/**
+ * A helper function to update the Autocomplete Output Store.
+ *
+ * @param updater - A callback that receives the current state and returns the updated state.
+ */
+export const updateAutocompleteOutputStore = (updater: AutocompleteOutputUpdater): void => {
+  updateAutocompleteOutput(updater);
+};
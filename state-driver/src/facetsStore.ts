@@ -0,0 +1,26 @@
+import { combine } from 'effector';
+import { parseFacets } from '@rzlv/public-api-sdk';
+import type { Facet } from '@rzlv/public-api-sdk';
+import { searchInputStore } from './searchInputStore';
+import { searchOutputStore } from './searchOutputStore';
+
+/**
+ * Facets derived from the latest search response, with selection state taken from the Input Store.
+ *
+ * The store updates as soon as a refinement changes, so checkboxes and range sliders can be bound to it
+ * and drive `handleRefinementChange` and `applyRange` directly.
+ *
+ * @example
+ * facetsStore.watch((facets) => {
+ *   facets.forEach((facet) => {
+ *     facet.values.forEach(({ value, count, selected }) => {
+ *       // render a checkbox calling handleRefinementChange(facet.name, value, !selected)
+ *     });
+ *   });
+ * });
+ */
+export const facetsStore = combine(
+  searchOutputStore,
+  searchInputStore,
+  (output, input): Facet[] => parseFacets(output.rawResponse, input.refinements)
+);
@@ -9,11 +9,23 @@ import { handleSortOrderChange } from './ui-functions/handleSortOrderChange';
 import { initUrlManager } from './urlManager';
 import { searchOutputStore, updateOutputStore } from './searchOutputStore';
 import { updateInputStore, searchInputStore } from './searchInputStore';
-import { initSearchManager } from './searchManager';
+import { facetsStore } from './facetsStore';
+import { getSortCatalog } from './sortCatalog';
+import { initSearchManager, invalidateSearchCache } from './searchManager';
 import { requestSearch } from '@rzlv/public-api-sdk/requestSearch';
 import { handleNextPage } from './ui-functions/handleNextPage';
 import { handlePreviousPage } from './ui-functions/handlePreviousPage';
 import { applyRange } from './ui-functions/applyRange';
+// autocomplete manager and UI functions
+import { initAutocompleteManager } from './autocompleteManager';
+import { autocompleteInputStore, updateAutocompleteInputStore } from './autocompleteInputStore';
+import { autocompleteOutputStore } from './autocompleteOutputStore';
+import {
+  handleAutocompleteInput,
+  moveHighlight,
+  selectSuggestion,
+  closeAutocomplete
+} from './ui-functions/autocompleteUiFunctions';
 // autocomplete and recommendations from public API
 import { requestAutocomplete, requestAutocompleteWithSearch, requestRecommendations } from '@rzlv/public-api-sdk';
 // recommendations manager
@@ -63,11 +75,22 @@ export {
   updateOutputStore,
   updateInputStore,
   searchInputStore,
+  facetsStore,
+  getSortCatalog,
   initSearchManager,
+  invalidateSearchCache,
   requestSearch, // NOTE: This comes from Public SDK and is here because of the legacy code in our search app
   handleNextPage,
   handlePreviousPage,
   applyRange,
   requestAutocomplete,
   requestAutocompleteWithSearch,
+  initAutocompleteManager,
+  autocompleteInputStore,
+  updateAutocompleteInputStore,
+  autocompleteOutputStore,
+  handleAutocompleteInput,
+  moveHighlight,
+  selectSuggestion,
+  closeAutocomplete,
 };
@@ -2,7 +2,7 @@ import { createEffect, sample } from 'effector';
 import { recsInputStore, updateRecsInputStore, type RecsParams } from './recsInputStore';
 import { recsOutputStore, updateRecsOutputStore } from './recsOutputStore';
 import { AppEnv } from '@rzlv/public-api-sdk';
-import { requestRecommendations, type RequestRecsResponse, type RecsManagerConfig, type RecsFilter, type RecsRequestProduct } from '@rzlv/public-api-sdk';
+import { requestRecommendations, toGbiErrorInfo, type RequestRecsResponse, type RecsManagerConfig, type RecsFilter, type RecsRequestProduct } from '@rzlv/public-api-sdk';
 import { debugLog, sdkConfig } from './debugLogger';
 
 /**
@@ -96,29 +96,33 @@ export const initRecsManager: InitRecsManagerFn = (config) => {
     // Only trigger the recommendations effect when the user has explicitly requested it
     filter: (inputState: RecsParams) =>
       inputState.hasRequested && inputState.name !== '',
-    fn: (inputState: RecsParams): RecsManagerParams => ({
-      shopTenant: recsManagerConfig.shopTenant,
-      appEnv: recsManagerConfig.appEnv,
-      recsOptions: {
-        name: inputState.name,
-        fields: inputState.fields,
-        collection: inputState.collection,
-        pageSize: inputState.pageSize,
-        currentPage: inputState.currentPage,
-        limit: inputState.limit,
-        productID: inputState.productID,
-        products: inputState.products,
-        visitorId: inputState.visitorId,
-        loginId: inputState.loginId,
-        filters: inputState.filters,
-        rawFilter: inputState.rawFilter,
-        placement: inputState.placement,
-        eventType: inputState.eventType,
-        area: inputState.area,
-        debug: inputState.debug,
-        strictFiltering: inputState.strictFiltering,
-      },
-    }),
+    fn: (inputState: RecsParams): RecsManagerParams => {
+      // Ids set on the request win over the configured identity manager.
+      const identity = recsManagerConfig.identity?.getIdentity();
+      return {
+        shopTenant: recsManagerConfig.shopTenant,
+        appEnv: recsManagerConfig.appEnv,
+        recsOptions: {
+          name: inputState.name,
+          fields: inputState.fields,
+          collection: inputState.collection,
+          pageSize: inputState.pageSize,
+          currentPage: inputState.currentPage,
+          limit: inputState.limit,
+          productID: inputState.productID,
+          products: inputState.products,
+          visitorId: inputState.visitorId || identity?.visitorId,
+          loginId: inputState.loginId || identity?.loginId,
+          filters: inputState.filters,
+          rawFilter: inputState.rawFilter,
+          placement: inputState.placement,
+          eventType: inputState.eventType,
+          area: inputState.area,
+          debug: inputState.debug,
+          strictFiltering: inputState.strictFiltering,
+        },
+      };
+    },
     target: recsFx,
   });
 
@@ -179,7 +183,7 @@ export const initRecsManager: InitRecsManagerFn = (config) => {
     updateRecsOutputStore((current) => ({
       ...current,
       loading: false,
-      error: error instanceof Error ? error.message : String(error),
+      error: toGbiErrorInfo(error),
     }));
 
     // Clear the request flag even on failure
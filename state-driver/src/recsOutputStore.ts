@@ -1,6 +1,6 @@
 import { createStore, createEvent } from 'effector';
 import { debugLog } from './debugLogger';
-import type { RecsProduct } from '@rzlv/public-api-sdk';
+import type { RecsProduct, GbiErrorInfo } from '@rzlv/public-api-sdk';
 
 /**
  * Defines the structure of the recommendations results state.
@@ -37,9 +37,9 @@ export interface RecsResultsOutput {
    */
   loading: boolean;
   /**
-   * Error message if the recommendations request failed.
+   * Structured error if the recommendations request failed (kind, message and, for HTTP failures, the status).
    */
-  error: string | null;
+  error: GbiErrorInfo | null;
   /**
    * The full raw response from the recommendations API (for consistency and debugging).
    */
@@ -1,11 +1,28 @@
 import { createEffect, sample } from 'effector';
 import { searchInputStore, updateInputStore } from './searchInputStore';
-import { requestSearch, RequestSearchResponse } from '@rzlv/public-api-sdk/requestSearch';
+import type { RequestSearchResponse } from '@rzlv/public-api-sdk/requestSearch';
 import { updateOutputStore } from './searchOutputStore';
+import { createGbiClient, createSearchCache, createSortCatalog, setDebugLogging, toGbiErrorInfo } from '@rzlv/public-api-sdk';
+import type {
+  AppEnv,
+  BeaconTracker,
+  Biasing,
+  GbiClient,
+  IdentityManager,
+  MissingProductPolicy,
+  PreFilter,
+  ProductEnricher,
+  RetryPolicy,
+  SearchCache,
+  SearchCacheOptions,
+  SearchQueryInfo,
+  SortOption,
+} from '@rzlv/public-api-sdk';
 import type { SearchParams } from './types';
 import type { ShopifyConfig } from '@rzlv/public-api-sdk/fetchSfProducts';
 import { PaginationType } from './types';
 import { debugLog, sdkConfig } from './debugLogger';
+import { setSortCatalog } from './sortCatalog';
 
 /**
  * Interface defining the parameters required to trigger a search request.
@@ -23,6 +40,12 @@ interface SearchManagerParams {
     sortBy?: string;
     refinements?: readonly string[];
     collectionId?: string;
+    preFilter?: PreFilter;
+    fields?: readonly string[];
+    dynamicFacet?: boolean;
+    biasing?: Biasing;
+    missingProductPolicy?: MissingProductPolicy;
+    enricher?: ProductEnricher;
     paginationType: PaginationType;
   };
 }
@@ -40,24 +63,122 @@ export interface SearchManagerConfig {
   collectionId?: string;
   mergeShopifyData?: boolean;  // Setting for merging Shopify data on init
   shopifyConfig?: ShopifyConfig
+  retry?: Partial<RetryPolicy>; // Per-attempt timeout and retry overrides for search and Shopify enrichment calls
+  searchCache?: boolean | SearchCacheOptions; // Opt-in in-memory cache of search responses (true uses the default TTL/size)
+  sortOptions?: SortOption[]; // Sort catalog; `sort_by` then holds a sort option id and unknown ids fall back to the default
+  defaultSort?: string; // Id of the default sort option (defaults to the first option)
+  preFilter?: PreFilter; // Replaces the default in-stock pre-filter, e.g. to include out-of-stock items
+  fields?: string[]; // Record fields to return (all by default); keep id, handle and variants when merging Shopify data
+  dynamicFacet?: boolean; // Enables dynamic navigation
+  biasing?: Biasing; // Boost/bury rules sent with every search
+  missingProductPolicy?: MissingProductPolicy; // Records without a Shopify product: 'drop' (default), 'keep-gbi-record' or 'placeholder'
+  enricher?: ProductEnricher; // Replaces the default Shopify enrichment (Storefront GraphQL or AJAX)
+  followRedirects?: boolean; // Navigates to the keyword redirect URL (http(s) only) of a query instead of showing its results (default false)
+  beaconTracker?: BeaconTracker; // Tracks every search as a beacon (see `createBeaconTracker`)
+  identity?: IdentityManager; // Attaches visitor, session and customer ids to every search (see `createIdentityManager`)
+}
+
+// Latest-wins sequencing: only the most recent search may write to the Output Store.
+// A search is identified by everything but its page; changing any of that aborts the superseded
+// request (including its Shopify merge step), while "show more" page loads of the same search are
+// queued behind each other so every page is appended, in order.
+interface ActiveSearch {
+  key: string;
+  controller: AbortController;
+  // Settles once the last queued page request of this search has settled.
+  lastPage: Promise<unknown>;
+}
+
+let activeSearch: ActiveSearch | null = null;
+// The search each effect call belongs to, looked up when the effect settles.
+const searchOfParams = new WeakMap<SearchManagerParams, ActiveSearch>();
+
+/**
+ * Returns the key that identifies the search of the given params, i.e. everything except the page.
+ */
+function searchKeyOf({ searchOptions }: SearchManagerParams): string {
+  return JSON.stringify([
+    searchOptions.query,
+    searchOptions.refinements,
+    searchOptions.sortBy,
+    searchOptions.collectionId,
+    searchOptions.pageSize,
+    searchOptions.paginationType,
+  ]);
+}
+
+/**
+ * Returns true if the params request a page that is appended to the products already shown.
+ */
+function isShowMorePage(params: SearchManagerParams): boolean {
+  return params.searchOptions.paginationType === PaginationType.SHOW_MORE && params.searchOptions.page > 1;
+}
+
+/**
+ * Returns true if the given effect params belong to a search that has since been superseded.
+ */
+function isStaleSearch(params: SearchManagerParams): boolean {
+  return searchOfParams.get(params) !== activeSearch;
+}
+
+/**
+ * Resolves a keyword redirect URL against the current page. Only `http:` and `https:` URLs are returned,
+ * so a redirect such as `javascript:...` is never navigated to.
+ *
+ * @returns The absolute URL to navigate to, or null when the redirect must not be followed.
+ */
+function resolveRedirectUrl(redirectUrl: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(redirectUrl, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
 }
 
 // Create the effect that triggers the search API call.
 export const searchFx = createEffect(
   async (params: SearchManagerParams): Promise<RequestSearchResponse> => {
     debugLog('Search Manager', 'searchFx triggered with params', params);
-    return await requestSearch(
-      params.shopTenant,
-      params.appEnv,
-      params.searchOptions,
-      (searchManagerConfig.mergeShopifyData ?? true),
-      (searchManagerConfig.shopifyConfig !== undefined ? searchManagerConfig.shopifyConfig : undefined)
-    );
+    const key = searchKeyOf(params);
+    let previousPage: Promise<unknown> | undefined;
+    if (activeSearch && activeSearch.key === key && isShowMorePage(params)) {
+      previousPage = activeSearch.lastPage;
+    } else {
+      activeSearch?.controller.abort();
+      activeSearch = { key, controller: new AbortController(), lastPage: Promise.resolve() };
+    }
+    const search = activeSearch;
+    searchOfParams.set(params, search);
+
+    const send = () =>
+      searchClient.requestSearch(
+        { ...params.searchOptions, signal: search.controller.signal },
+        (searchManagerConfig.mergeShopifyData ?? true),
+        (searchManagerConfig.shopifyConfig !== undefined ? searchManagerConfig.shopifyConfig : undefined)
+      );
+    // A show-more page waits for the previous page of its search, so pages are appended in the order they were requested.
+    const request = previousPage ? previousPage.then(send) : send();
+    search.lastPage = request.catch(() => undefined);
+    return await request;
   }
 );
 
 // Module-level variable to hold the static configuration.
 let searchManagerConfig: SearchManagerConfig;
+// Client bound to the configured tenant, environment and retry policy.
+let searchClient: GbiClient;
+// Search response cache, present only when enabled via `SearchManagerConfig.searchCache`.
+let searchCache: SearchCache | undefined;
+
+/**
+ * Clears the Search Manager's response cache (no-op when caching is disabled).
+ * Call this after anything that changes results for identical requests, e.g. a cart or inventory update.
+ */
+export function invalidateSearchCache(): void {
+  debugLog('Search Manager', 'Invalidating search cache');
+  searchCache?.invalidate();
+}
 
 /**
  * Explicitly initializes the Search Manager.
@@ -77,6 +198,30 @@ export function initSearchManager(config: SearchManagerConfig): void {
   debugLog('Search Manager', 'Initializing with config', config);
   // Store the configuration for use in every search request.
   searchManagerConfig = config;
+  searchCache = config.searchCache
+    ? createSearchCache(config.searchCache === true ? {} : config.searchCache)
+    : undefined;
+  const sortCatalog = config.sortOptions
+    ? createSortCatalog(config.sortOptions, config.defaultSort)
+    : undefined;
+  setSortCatalog(sortCatalog);
+  searchClient = createGbiClient({
+    shopTenant: config.shopTenant,
+    appEnv: config.appEnv as AppEnv,
+    retry: config.retry,
+    searchCache,
+    sortCatalog,
+    beaconTracker: config.beaconTracker,
+    identity: config.identity,
+  });
+  if (sortCatalog && !sortCatalog.get(searchInputStore.getState().sort_by)) {
+    // Start from the catalog default rather than a sort id the catalog does not know.
+    updateInputStore((current) => ({ ...current, sort_by: sortCatalog.defaultId }));
+  }
+  if (config.debug !== undefined) {
+    sdkConfig.debug = config.debug;
+    setDebugLogging(config.debug);
+  }
 
   // Wire up the sample operator so that every change to the searchInputStore triggers a search.
   sample({
@@ -109,6 +254,12 @@ export function initSearchManager(config: SearchManagerConfig): void {
           refinements: inputState.refinements,
           // Use inputState.collectionId if available; otherwise fallback to static config.
           collectionId: inputState.collectionId || searchManagerConfig.collectionId,
+          preFilter: searchManagerConfig.preFilter,
+          fields: searchManagerConfig.fields,
+          dynamicFacet: searchManagerConfig.dynamicFacet,
+          biasing: searchManagerConfig.biasing,
+          missingProductPolicy: searchManagerConfig.missingProductPolicy,
+          enricher: searchManagerConfig.enricher,
           paginationType: inputState.paginationType,
         },
       };
@@ -130,7 +281,27 @@ export function initSearchManager(config: SearchManagerConfig): void {
 
   // When the search effect is done, update the Output Store with the returned data.
   searchFx.done.watch(({ result, params }) => {
+    if (isStaleSearch(params)) {
+      debugLog('Search Manager', 'searchFx done for a superseded search, discarding result');
+      return;
+    }
     debugLog('Search Manager', 'searchFx done:', result);
+    const queryInfo: SearchQueryInfo = {
+      originalQuery: result.originalQuery,
+      correctedQuery: result.correctedQuery,
+      didYouMean: result.didYouMean,
+      rewrites: result.rewrites,
+      redirectUrl: result.redirectUrl,
+    };
+    if (searchManagerConfig.followRedirects && queryInfo.redirectUrl && globalThis.location) {
+      const redirectUrl = resolveRedirectUrl(queryInfo.redirectUrl, globalThis.location.href);
+      if (redirectUrl) {
+        debugLog('Search Manager', 'Following keyword redirect to', redirectUrl);
+        globalThis.location.assign(redirectUrl);
+      } else {
+        debugLog('Search Manager', 'Ignoring keyword redirect that is not an http(s) URL', queryInfo.redirectUrl);
+      }
+    }
     updateOutputStore((current) => {
       // Use the mergedProducts from the response (which is always present now)
       const newProducts = result.mergedProducts;
@@ -150,18 +321,23 @@ export function initSearchManager(config: SearchManagerConfig): void {
         loading: false,
         error: null,
         totalRecordCount: result.rawResponse.totalRecordCount || current.totalRecordCount,
+        queryInfo,
         rawResponse: result.rawResponse,
       };
     });
   });
 
   // When the search effect fails, update the Output Store with an error state.
-  searchFx.fail.watch(({ error }) => {
+  searchFx.fail.watch(({ error, params }) => {
+    if (isStaleSearch(params)) {
+      debugLog('Search Manager', 'searchFx failed for a superseded search, ignoring:', error);
+      return;
+    }
     debugLog('Search Manager', 'searchFx error:', error);
     updateOutputStore((current) => ({
       ...current,
       loading: false,
-      error: error instanceof Error ? error.message : String(error),
+      error: toGbiErrorInfo(error),
     }));
   });
 
@@ -1,5 +1,6 @@
 import { createStore, createEvent } from 'effector';
 import { debugLog } from './debugLogger';
+import type { GbiErrorInfo, SearchProduct, SearchQueryInfo, SearchResult } from '@rzlv/public-api-sdk';
 
 /**
  * Defines the structure of the search results state.
@@ -8,7 +9,7 @@ export interface SearchResultsOutput {
   /**
    * Array of product records or search result items.
    */
-  products: any[]; // TODO: Define the product type
+  products: SearchProduct[];
   /**
    * Query parameters used in the search request.
    */
@@ -23,17 +24,22 @@ export interface SearchResultsOutput {
    */
   loading: boolean;
   /**
-   * Error message if the search request failed.
+   * Structured error if the search request failed (kind, message and, for HTTP failures, the status).
    */
-  error: string | null;
+  error: GbiErrorInfo | null;
   /**
    * The total number of records returned by the search.
    */
   totalRecordCount: number;
+  /**
+   * How GBI interpreted the latest query: its spelling correction, suggestions, rewrites and keyword redirect.
+   * Use it to render "Showing results for ..." when `correctedQuery` is set. Null until the first search completes.
+   */
+  queryInfo: SearchQueryInfo | null;
   /**
    * The full raw response from the search API (for consistency and debugging).
    */
-  rawResponse?: any; // TODO: Define the raw response type.
+  rawResponse?: SearchResult;
 }
 
 // Define the initial state for the Output Store.
@@ -47,6 +53,7 @@ const initialSearchResults: SearchResultsOutput = {
   loading: false,
   error: null,
   totalRecordCount: 0,
+  queryInfo: null,
   rawResponse: undefined,
 };
 
@@ -0,0 +1,30 @@
+import type { SortCatalog } from '@rzlv/public-api-sdk';
+import { DEFAULT_SORT_BY } from './constants/searchConstants';
+
+// The catalog registered by `initSearchManager` (via `sortOptions`), shared with the UI functions and the URL Manager.
+let activeSortCatalog: SortCatalog | undefined;
+
+/**
+ * Registers the sort catalog used to validate `sort_by` values.
+ *
+ * @param catalog - The catalog, or undefined to accept any `sort_by` value.
+ */
+export function setSortCatalog(catalog: SortCatalog | undefined): void {
+  activeSortCatalog = catalog;
+}
+
+/**
+ * Returns the registered sort catalog, if any. Use its `options` to render a sort dropdown.
+ *
+ * @returns The sort catalog, or undefined when none was registered.
+ */
+export function getSortCatalog(): SortCatalog | undefined {
+  return activeSortCatalog;
+}
+
+/**
+ * Returns the default `sort_by` value: the catalog default, or "relevance" without a catalog.
+ */
+export function getDefaultSortId(): string {
+  return activeSortCatalog?.defaultId ?? DEFAULT_SORT_BY;
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { initAutocompleteManager } from '../autocompleteManager';
+import { autocompleteOutputStore } from '../autocompleteOutputStore';
+import { searchInputStore, updateInputStore } from '../searchInputStore';
+import { autocompleteInputStore } from '../autocompleteInputStore';
+import {
+	handleAutocompleteInput,
+	moveHighlight,
+	selectSuggestion,
+	closeAutocomplete,
+} from '../ui-functions/autocompleteUiFunctions';
+
+type Deferred = {
+	query: string;
+	signal: AbortSignal;
+	resolve: (value: unknown) => void;
+	reject: (reason: unknown) => void;
+};
+
+const pending: Deferred[] = [];
+
+vi.mock('@rzlv/public-api-sdk', () => {
+	const requestAutocomplete = vi.fn((options: { query: string; signal: AbortSignal }) =>
+		new Promise((resolve, reject) => {
+			pending.push({ query: options.query, signal: options.signal, resolve, reject });
+		})
+	);
+	return {
+		AUTOCOMPLETE_PREFIX: 'autocomplete:',
+		encodeRefinement: ({ navigationName, value }: { navigationName: string; value: string }) => `${navigationName}:${value}`,
+		createGbiClient: vi.fn(() => ({ requestAutocomplete })),
+		setDebugLogging: vi.fn(),
+		toGbiErrorInfo: vi.fn((error: Error) => ({ kind: 'unknown', name: error.name, message: error.message })),
+	};
+});
+
+function responseFor(query: string, terms: string[], brands: string[] = []) {
+	return {
+		autocomplete: {
+			query,
+			querySuggestions: terms.map((term) => ({ type: 'query', term, segments: [] })),
+			navigationSuggestions: brands.map((term) => ({ type: 'navigation', term, navigationName: 'brands', segments: [] })),
+			productSuggestions: [],
+			raw: {},
+		},
+	};
+}
+
+describe('autocompleteManager', () => {
+	beforeAll(() => {
+		initAutocompleteManager({
+			shopTenant: 'tenant',
+			appEnv: 'PRODUCTION',
+			collection: 'products',
+			area: 'Production',
+			minQueryLength: 2,
+			debounceMs: 200,
+		});
+	});
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		handleAutocompleteInput('');
+		pending.length = 0;
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('waits for the debounce window and the minimum query length', async () => {
+		handleAutocompleteInput('s');
+		await vi.advanceTimersByTimeAsync(300);
+		expect(pending).toHaveLength(0);
+		expect(autocompleteOutputStore.getState().isOpen).toBe(false);
+
+		handleAutocompleteInput('sh');
+		await vi.advanceTimersByTimeAsync(100);
+		handleAutocompleteInput('sho');
+		await vi.advanceTimersByTimeAsync(199);
+		expect(pending).toHaveLength(0);
+		expect(autocompleteOutputStore.getState().loading).toBe(true);
+
+		await vi.advanceTimersByTimeAsync(1);
+		expect(pending.map((p) => p.query)).toEqual(['sho']);
+	});
+
+	it('cancels the superseded request and keeps the latest suggestions', async () => {
+		handleAutocompleteInput('sho');
+		await vi.advanceTimersByTimeAsync(200);
+		handleAutocompleteInput('shoe');
+		await vi.advanceTimersByTimeAsync(200);
+
+		expect(pending.map((p) => p.query)).toEqual(['sho', 'shoe']);
+		expect(pending[0].signal.aborted).toBe(true);
+
+		pending[1].resolve(responseFor('shoe', ['shoes']));
+		await vi.advanceTimersByTimeAsync(0);
+		pending[0].resolve(responseFor('sho', ['shorts']));
+		await vi.advanceTimersByTimeAsync(0);
+
+		const out = autocompleteOutputStore.getState();
+		expect(out.query).toBe('shoe');
+		expect(out.suggestions.map((s) => s.type === 'product' ? s.title : s.term)).toEqual(['shoes']);
+		expect(out.isOpen).toBe(true);
+		expect(out.loading).toBe(false);
+	});
+
+	it('moves the highlight with wrap-around and searches the selected suggestion', async () => {
+		handleAutocompleteInput('sho');
+		await vi.advanceTimersByTimeAsync(200);
+		pending[0].resolve(responseFor('sho', ['shoes', 'shorts', 'shirts']));
+		await vi.advanceTimersByTimeAsync(0);
+
+		moveHighlight('up');
+		expect(autocompleteOutputStore.getState().highlightedIndex).toBe(2);
+		moveHighlight('down');
+		expect(autocompleteOutputStore.getState().highlightedIndex).toBe(0);
+		moveHighlight('down');
+
+		const selected = selectSuggestion();
+
+		expect(selected).toEqual({ type: 'query', term: 'shorts', segments: [] });
+		expect(searchInputStore.getState().gbi_query).toBe('autocomplete:shorts');
+		expect(autocompleteOutputStore.getState().isOpen).toBe(false);
+		expect(autocompleteOutputStore.getState().highlightedIndex).toBe(-1);
+	});
+
+	it('applies the refinement of a navigation suggestion and shows its term without requesting suggestions', async () => {
+		updateInputStore((current) => ({ ...current, gbi_query: 'nik', refinements: ['color:Red'], page: 3 }));
+		handleAutocompleteInput('nik');
+		await vi.advanceTimersByTimeAsync(200);
+		pending[0].resolve(responseFor('nik', ['nike shoes'], ['Nike']));
+		await vi.advanceTimersByTimeAsync(0);
+
+		const [, brand] = autocompleteOutputStore.getState().suggestions;
+		selectSuggestion(brand);
+		await vi.advanceTimersByTimeAsync(200);
+
+		expect(searchInputStore.getState()).toMatchObject({ gbi_query: '', refinements: ['brands:Nike'], page: 1, hasSubmitted: true });
+		expect(autocompleteInputStore.getState().query).toBe('Nike');
+		expect(pending).toHaveLength(1);
+		expect(autocompleteOutputStore.getState().isOpen).toBe(false);
+	});
+
+	it('shows the term of a selected query suggestion in the autocomplete query', async () => {
+		handleAutocompleteInput('sho');
+		await vi.advanceTimersByTimeAsync(200);
+		pending[0].resolve(responseFor('sho', ['shoes']));
+		await vi.advanceTimersByTimeAsync(0);
+
+		selectSuggestion(autocompleteOutputStore.getState().suggestions[0]);
+		await vi.advanceTimersByTimeAsync(200);
+
+		expect(autocompleteInputStore.getState().query).toBe('shoes');
+		expect(pending).toHaveLength(1);
+
+		handleAutocompleteInput('shoes r');
+		await vi.advanceTimersByTimeAsync(200);
+		expect(pending.map((p) => p.query)).toEqual(['sho', 'shoes r']);
+	});
+
+	it('does not reopen when a request settles after the dropdown was closed', async () => {
+		handleAutocompleteInput('sho');
+		await vi.advanceTimersByTimeAsync(200);
+		closeAutocomplete();
+
+		pending[0].resolve(responseFor('sho', ['shoes']));
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(pending[0].signal.aborted).toBe(true);
+		expect(autocompleteOutputStore.getState().isOpen).toBe(false);
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { SortCatalog, SortOption } from '@rzlv/public-api-sdk';
+import { handleSortOrderChange } from '../ui-functions/handleSortOrderChange';
+import { searchInputStore, updateInputStore } from '../searchInputStore';
+import { setSortCatalog, getDefaultSortId } from '../sortCatalog';
+
+vi.mock('../debugLogger', () => ({
+	debugLog: vi.fn(),
+}));
+
+const options: SortOption[] = [
+	{ id: 'best-match', label: 'Best match', sorts: [] },
+	{ id: 'newest', label: 'Newest', sorts: [] },
+];
+
+// Hand-rolled catalog so the test does not depend on the Public API SDK implementation.
+const catalog: SortCatalog = {
+	options,
+	defaultId: 'best-match',
+	get: (id) => options.find((option) => option.id === id),
+	resolve: (id) => options.find((option) => option.id === id) ?? options[0],
+};
+
+describe('handleSortOrderChange', () => {
+	beforeEach(() => {
+		updateInputStore((current) => ({ ...current, sort_by: 'relevance', page: 3 }));
+	});
+
+	afterEach(() => {
+		setSortCatalog(undefined);
+	});
+
+	it('accepts any sort value when no catalog is registered', () => {
+		handleSortOrderChange('compare-at-price-asc');
+
+		expect(searchInputStore.getState().sort_by).toBe('compare-at-price-asc');
+		expect(searchInputStore.getState().page).toBe(1);
+	});
+
+	it('applies a known sort option id', () => {
+		setSortCatalog(catalog);
+
+		handleSortOrderChange('newest');
+
+		expect(searchInputStore.getState().sort_by).toBe('newest');
+		expect(searchInputStore.getState().page).toBe(1);
+	});
+
+	it('ignores sort ids the catalog does not know', () => {
+		setSortCatalog(catalog);
+
+		handleSortOrderChange('price-asc');
+
+		expect(searchInputStore.getState().sort_by).toBe('relevance');
+		expect(searchInputStore.getState().page).toBe(3);
+	});
+
+	it('uses the catalog default as the default sort', () => {
+		expect(getDefaultSortId()).toBe('relevance');
+		setSortCatalog(catalog);
+		expect(getDefaultSortId()).toBe('best-match');
+	});
+});
@@ -164,6 +164,30 @@ describe('recsManager', () => {
 		expect(recsInputStore.getState().hasRequested).toBe(false);
 	});
 
+	it('fills visitor and login ids from the configured identity manager', async () => {
+		initRecsManager({
+			shopTenant: 'tenant',
+			appEnv: AppEnv.Production as any,
+			name: 'model',
+			collection: 'products',
+			pageSize: 5,
+			identity: {
+				getIdentity: () => ({ visitorId: 'visitor-1', sessionId: 'session-1', loginId: 'customer-1' }),
+				setLoginId: vi.fn(),
+				reset: vi.fn(),
+			},
+		});
+
+		setupRecommendations({ name: 'model', collection: 'products', pageSize: 5, currentPage: 0, loginId: 'explicit' });
+		await Promise.resolve();
+
+		expect(requestRecommendationsRef).toHaveBeenCalledWith(
+			'tenant',
+			AppEnv.Production,
+			expect.objectContaining({ visitorId: 'visitor-1', loginId: 'explicit' })
+		);
+	});
+
 	it('does not trigger when name is empty (filter guard)', async () => {
 		initRecsManager({
 			shopTenant: 'tenant',
@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { applyRange } from '../ui-functions/applyRange';
+import { handleRefinementChange } from '../ui-functions/handleRefinementChange';
+import { searchInputStore, updateInputStore } from '../searchInputStore';
+
+vi.mock('../debugLogger', () => ({
+	debugLog: vi.fn(),
+}));
+
+// Only the refinement codec is needed, so the real implementation is used without the rest of the SDK.
+vi.mock('@rzlv/public-api-sdk', async () => ({
+	...(await import('../../../public-api/src/utils/refinementCodec')),
+	RefinementType: (await import('../../../public-api/src/utils/searchUtils.types')).RefinementType,
+}));
+
+function refinements(): readonly string[] {
+	return searchInputStore.getState().refinements;
+}
+
+describe('refinement ui functions', () => {
+	beforeEach(() => {
+		updateInputStore((current) => ({ ...current, refinements: [], page: 4 }));
+	});
+
+	it('adds and removes value refinements with escaped values', () => {
+		handleRefinementChange('color', 'Black, White', true);
+		expect(refinements()).toEqual(['color:Black\\, White']);
+		expect(searchInputStore.getState().page).toBe(1);
+
+		handleRefinementChange('color', 'Black, White', false);
+		expect(refinements()).toEqual([]);
+	});
+
+	it('removes a refinement stored in its legacy form', () => {
+		updateInputStore((current) => ({ ...current, refinements: ['color:Black%2C%20White', 'size:M'] }));
+
+		handleRefinementChange('color', 'Black, White', false);
+
+		expect(refinements()).toEqual(['size:M']);
+	});
+
+	it('does not add the same refinement twice', () => {
+		handleRefinementChange('size', 'M', true);
+		handleRefinementChange('size', 'M', true);
+
+		expect(refinements()).toEqual(['size:M']);
+	});
+
+	it('replaces the range of the same field and keeps value refinements that look like ranges', () => {
+		handleRefinementChange('price', '10--to--20', true);
+		applyRange('price', 10, 50);
+		applyRange('price', 20, 80);
+
+		expect(refinements()).toEqual(['price:10\\--to--20', 'price:20--to--80']);
+		expect(searchInputStore.getState().page).toBe(1);
+	});
+});
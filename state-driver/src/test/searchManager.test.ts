@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { initSearchManager } from '../searchManager';
+import { searchOutputStore, updateOutputStore } from '../searchOutputStore';
+import { updateInputStore } from '../searchInputStore';
+import { handleSearchInput } from '../ui-functions/handleSearchInput';
+import { handleNextPage } from '../ui-functions/handleNextPage';
+import { PaginationType } from '../types';
+
+type Deferred = {
+	query: string;
+	page: number;
+	signal: AbortSignal;
+	resolve: (value: unknown) => void;
+	reject: (reason: unknown) => void;
+};
+
+const pending: Deferred[] = [];
+
+vi.mock('@rzlv/public-api-sdk', () => {
+	const requestSearch = vi.fn((options: { query: string; page: number; signal: AbortSignal }) =>
+		new Promise((resolve, reject) => {
+			pending.push({ query: options.query, page: options.page, signal: options.signal, resolve, reject });
+		})
+	);
+	return {
+		createGbiClient: vi.fn(() => ({ requestSearch })),
+		setDebugLogging: vi.fn(),
+		toGbiErrorInfo: vi.fn((error: Error) => ({ kind: 'unknown', name: error.name, message: error.message })),
+	};
+});
+
+function responseFor(query: string) {
+	return {
+		mergedProducts: [{ id: query }],
+		rawResponse: { records: [{ id: query }], totalRecordCount: 1 },
+	};
+}
+
+// Starts a search for `query` whose pages are appended with "show more".
+function searchWithShowMore(query: string) {
+	updateInputStore((current) => ({
+		...current,
+		gbi_query: query,
+		page: 1,
+		hasSubmitted: true,
+		paginationType: PaginationType.SHOW_MORE,
+	}));
+}
+
+async function flush() {
+	await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('searchManager', () => {
+	beforeAll(() => {
+		initSearchManager({
+			shopTenant: 'tenant',
+			appEnv: 'PRODUCTION',
+			collection: 'products',
+			area: 'Production',
+			mergeShopifyData: false,
+			followRedirects: true,
+		});
+	});
+
+	beforeEach(() => {
+		pending.length = 0;
+		updateOutputStore((current) => ({ ...current, products: [], error: null, loading: false, rawResponse: undefined, queryInfo: null }));
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('aborts the superseded search and keeps the latest result', async () => {
+		handleSearchInput('first');
+		handleSearchInput('second');
+
+		expect(pending.map((p) => p.query)).toEqual(['first', 'second']);
+		expect(pending[0].signal.aborted).toBe(true);
+		expect(pending[1].signal.aborted).toBe(false);
+
+		pending[1].resolve(responseFor('second'));
+		await flush();
+		pending[0].resolve(responseFor('first'));
+		await flush();
+
+		const out = searchOutputStore.getState();
+		expect(out.products).toEqual([{ id: 'second' }]);
+		expect(out.loading).toBe(false);
+	});
+
+	it('appends quickly requested show-more pages in order without aborting them', async () => {
+		searchWithShowMore('shoes');
+		pending[0].resolve(responseFor('page-1'));
+		await flush();
+
+		handleNextPage();
+		handleNextPage();
+		await flush();
+
+		// Page 3 waits for page 2 instead of aborting it.
+		expect(pending.map((p) => p.page)).toEqual([1, 2]);
+		expect(pending[1].signal.aborted).toBe(false);
+
+		pending[1].resolve(responseFor('page-2'));
+		await flush();
+		expect(pending.map((p) => p.page)).toEqual([1, 2, 3]);
+		pending[2].resolve(responseFor('page-3'));
+		await flush();
+
+		const out = searchOutputStore.getState();
+		expect(out.products).toEqual([{ id: 'page-1' }, { id: 'page-2' }, { id: 'page-3' }]);
+		expect(out.loading).toBe(false);
+		updateInputStore((current) => ({ ...current, paginationType: PaginationType.PAGINATE }));
+	});
+
+	it('aborts pending show-more pages when the query changes', async () => {
+		searchWithShowMore('shoes');
+		pending[0].resolve(responseFor('shoes'));
+		await flush();
+
+		handleNextPage();
+		await flush();
+		handleSearchInput('boots');
+
+		expect(pending[1].signal.aborted).toBe(true);
+		pending[2].resolve(responseFor('boots'));
+		await flush();
+		pending[1].resolve(responseFor('shoes-2'));
+		await flush();
+
+		expect(searchOutputStore.getState().products).toEqual([{ id: 'boots' }]);
+		updateInputStore((current) => ({ ...current, paginationType: PaginationType.PAGINATE }));
+	});
+
+	it('ignores failures of superseded searches', async () => {
+		handleSearchInput('slow');
+		handleSearchInput('fast');
+
+		pending[0].reject(new DOMException('Aborted', 'AbortError'));
+		await flush();
+		expect(searchOutputStore.getState().error).toBeNull();
+
+		pending[1].resolve(responseFor('fast'));
+		await flush();
+
+		const out = searchOutputStore.getState();
+		expect(out.products).toEqual([{ id: 'fast' }]);
+		expect(out.error).toBeNull();
+	});
+
+	it('stores a structured error when the latest search fails', async () => {
+		handleSearchInput('broken');
+
+		pending[0].reject(new Error('boom'));
+		await flush();
+
+		const out = searchOutputStore.getState();
+		expect(out.loading).toBe(false);
+		expect(out.error).toEqual({ kind: 'unknown', name: 'Error', message: 'boom' });
+	});
+
+	it('stores the spelling correction of the latest search', async () => {
+		handleSearchInput('snekers');
+
+		pending[0].resolve({
+			...responseFor('sneakers'),
+			originalQuery: 'snekers',
+			correctedQuery: 'sneakers',
+			didYouMean: ['sneaker'],
+			rewrites: [],
+		});
+		await flush();
+
+		expect(searchOutputStore.getState().queryInfo).toEqual({
+			originalQuery: 'snekers',
+			correctedQuery: 'sneakers',
+			didYouMean: ['sneaker'],
+			rewrites: [],
+			redirectUrl: undefined,
+		});
+	});
+
+	it.each([
+		['/pages/sale', 'https://shop.example/pages/sale'],
+		['https://other.example/landing', 'https://other.example/landing'],
+	])('follows the keyword redirect %s', async (redirectUrl, expected) => {
+		const assign = vi.fn();
+		vi.stubGlobal('location', { href: 'https://shop.example/search?q=sale', assign });
+		handleSearchInput('sale');
+
+		pending[0].resolve({ ...responseFor('sale'), redirectUrl });
+		await flush();
+
+		expect(assign).toHaveBeenCalledWith(expected);
+	});
+
+	it.each(['javascript:alert(1)', 'data:text/html,<script>alert(1)</script>', 'http://[invalid'])(
+		'does not follow the keyword redirect %s',
+		async (redirectUrl) => {
+			const assign = vi.fn();
+			vi.stubGlobal('location', { href: 'https://shop.example/search?q=sale', assign });
+			handleSearchInput('sale');
+
+			pending[0].resolve({ ...responseFor('sale'), redirectUrl });
+			await flush();
+
+			expect(assign).not.toHaveBeenCalled();
+			expect(searchOutputStore.getState().queryInfo?.redirectUrl).toBe(redirectUrl);
+		}
+	);
+});
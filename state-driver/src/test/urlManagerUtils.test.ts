@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { calculateHasSubmitted, parseUrlToSearchParams, serializeSearchParamsToUrl } from '../utils/urlManagerUtils';
+import { SearchSource } from '../types';
+
+// Only the refinement codec is needed, so the real implementation is used without the rest of the SDK.
+vi.mock('@rzlv/public-api-sdk', async () => await import('../../../public-api/src/utils/refinementCodec'));
+
+const params = {
+	type: 'product',
+	refinements: ['color:Black\\, White', 'path:C\\:\\\\temp', 'price:10--to--50'],
+	sort_by: 'relevance',
+	page: 2,
+	gbi_query: 'shoes',
+	pagesize: '24',
+};
+
+describe('urlManagerUtils', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('round-trips refinements through the URL', () => {
+		const search = `?${serializeSearchParamsToUrl(params).toString()}`;
+		vi.stubGlobal('window', { location: { search } });
+
+		const parsed = parseUrlToSearchParams({ defaultPagesize: '12', source: SearchSource.SEARCH });
+
+		expect(parsed).toMatchObject({
+			refinements: params.refinements,
+			page: 2,
+			gbi_query: 'shoes',
+			pagesize: '24',
+			sort_by: 'relevance',
+		});
+	});
+
+	it('falls back to defaults for missing parameters', () => {
+		vi.stubGlobal('window', { location: { search: '' } });
+
+		const parsed = parseUrlToSearchParams({ defaultPagesize: '12', source: SearchSource.SEARCH });
+
+		expect(parsed).toMatchObject({ refinements: [], page: 1, gbi_query: '', pagesize: '12' });
+	});
+
+	it('submits only when there is search activity or an active collection', () => {
+		const idle = { gbi_query: ' ', refinements: [], page: 1, source: SearchSource.SEARCH };
+
+		expect(calculateHasSubmitted(idle)).toBe(false);
+		expect(calculateHasSubmitted({ ...idle, refinements: ['size:M'] })).toBe(true);
+		expect(calculateHasSubmitted(idle, 42)).toBe(false);
+		expect(calculateHasSubmitted({ ...idle, source: SearchSource.COLLECTION }, 42)).toBe(true);
+	});
+});
@@ -1,3 +1,4 @@
+import { RefinementType, decodeRefinement, encodeRefinement } from '@rzlv/public-api-sdk';
 import type { SearchParams } from '../types';
 import { updateInputStore } from '../searchInputStore';
 
@@ -44,15 +45,18 @@ export function applyRange(
 ): void {
   updateInputStore((current: SearchParams): SearchParams => {
     // Filter out any existing range refinement for the given navigation field.
-    const existingRangeRefinements = current.refinements.filter((refinement) => !refinement.startsWith(`${rangeNav}`));
+    const otherRefinements = current.refinements.filter((refinement) => {
+      const decoded = decodeRefinement(refinement);
+      return !(decoded?.type === RefinementType.Range && decoded.navigationName === rangeNav);
+    });
 
-    // Construct the new range refinment string.
-    const newRangeRefinement = `${rangeNav}:${lowValue}--to--${highValue}`;
+    // Construct the new range refinement string.
+    const newRangeRefinement = encodeRefinement({ navigationName: rangeNav, low: lowValue, high: highValue });
 
     // Return the updated state with the new refinements array and reset the page.
     return {
       ...current,
-      refinements: [...existingRangeRefinements, newRangeRefinement],
+      refinements: [...otherRefinements, newRangeRefinement],
       page: 1,
     };
   });
@@ -0,0 +1,105 @@
+import { AUTOCOMPLETE_PREFIX, encodeRefinement } from '@rzlv/public-api-sdk';
+import type { AutocompleteSuggestion, NavigationSuggestion } from '@rzlv/public-api-sdk';
+import { autocompleteInputStore, updateAutocompleteInputStore } from '../autocompleteInputStore';
+import { autocompleteOutputStore, updateAutocompleteOutputStore } from '../autocompleteOutputStore';
+import { cancelAutocomplete, getAutocompleteManagerConfig } from '../autocompleteManager';
+import { handleSearchInput } from './handleSearchInput';
+import { updateInputStore } from '../searchInputStore';
+import { debugLog } from '../debugLogger';
+
+/**
+ * Autocomplete functions, intended to be called directly from a search box and its dropdown.
+ */
+
+/**
+ * Updates the autocomplete query as the shopper types. Suggestions are requested by the Autocomplete Manager
+ * once the query is long enough and typing pauses for the debounce window.
+ *
+ * @param query - The current value of the search box.
+ */
+export function handleAutocompleteInput(query: string): void {
+  debugLog('UI:Autocomplete', 'handleAutocompleteInput', { query });
+  updateAutocompleteInputStore((current) => ({ ...current, query, fromSelection: false }));
+}
+
+/**
+ * Moves the keyboard highlight through the suggestions, wrapping around at either end.
+ * Moving down from no highlight selects the first suggestion, moving up selects the last.
+ *
+ * @param direction - 'up' or 'down', e.g. from the arrow keys.
+ */
+export function moveHighlight(direction: 'up' | 'down'): void {
+  updateAutocompleteOutputStore((current) => {
+    const count = current.suggestions.length;
+    if (!current.isOpen || count === 0) {
+      return current;
+    }
+    const highlightedIndex =
+      direction === 'down'
+        ? (current.highlightedIndex + 1) % count
+        : current.highlightedIndex <= 0 ? count - 1 : current.highlightedIndex - 1;
+    debugLog('UI:Autocomplete', 'moveHighlight', { direction, highlightedIndex });
+    return { ...current, highlightedIndex };
+  });
+}
+
+/**
+ * Closes the dropdown and cancels any pending request. The last suggestions are kept.
+ */
+export function closeAutocomplete(): void {
+  cancelAutocomplete();
+  updateAutocompleteOutputStore((current) => ({ ...current, isOpen: false, highlightedIndex: -1, loading: false }));
+}
+
+/**
+ * Starts a new search for the refinement a navigation suggestion stands for, e.g. all products of
+ * the suggested brand. The query and earlier refinements are cleared.
+ */
+function applyNavigationSuggestion(suggestion: NavigationSuggestion): void {
+  const refinement = encodeRefinement({ navigationName: suggestion.navigationName, value: suggestion.term });
+  updateInputStore((current) => ({
+    ...current,
+    gbi_query: '',
+    refinements: [refinement],
+    page: 1,
+    hasSubmitted: true,
+  }));
+}
+
+/**
+ * Selects a suggestion (by default the highlighted one, e.g. on Enter) and closes the dropdown.
+ * Query suggestions start a search through `handleSearchInput`, prefixed with `AUTOCOMPLETE_PREFIX` so the
+ * search is reported as an autocomplete search. Navigation suggestions start a search refined by the
+ * suggested value instead of searching its text. For both, the autocomplete query is set to the selected
+ * term (without requesting new suggestions), so the search box can show it. Product suggestions do not
+ * search; navigate to the returned product instead. Without a suggestion, the typed query is searched as is.
+ * The selection is tracked when the Autocomplete Manager has a beacon tracker.
+ *
+ * @param suggestion - Optional suggestion, e.g. the one clicked. Defaults to the highlighted suggestion.
+ * @returns The selected suggestion, or undefined when the typed query was searched.
+ */
+export function selectSuggestion(suggestion?: AutocompleteSuggestion): AutocompleteSuggestion | undefined {
+  const { response, suggestions, highlightedIndex } = autocompleteOutputStore.getState();
+  const { query } = autocompleteInputStore.getState();
+  const selected = suggestion ?? suggestions[highlightedIndex];
+  debugLog('UI:Autocomplete', 'selectSuggestion', { selected });
+  closeAutocomplete();
+
+  if (!selected) {
+    if (query.trim()) handleSearchInput(query);
+    return undefined;
+  }
+  if (response) {
+    getAutocompleteManagerConfig()?.beaconTracker?.trackAutocompleteSelection(response, selected);
+  }
+  if (selected.type === 'product') {
+    return selected;
+  }
+  updateAutocompleteInputStore(() => ({ query: selected.term, fromSelection: true }));
+  if (selected.type === 'navigation') {
+    applyNavigationSuggestion(selected);
+  } else {
+    handleSearchInput(`${AUTOCOMPLETE_PREFIX}${selected.term}`);
+  }
+  return selected;
+}
@@ -1,3 +1,4 @@
+import { encodeRefinement, isSameRefinement } from '@rzlv/public-api-sdk';
 import type { SearchParams } from '../types';
 import { updateInputStore } from '../searchInputStore';
 
@@ -6,6 +7,8 @@ import { updateInputStore } from '../searchInputStore';
  *
  * This function updates the search parameters by adding or removing a refinement,
  * and resets the current page to 1. It uses the updateInputStore helper to update the state.
+ * The refinement is stored in its encoded form (see `encodeRefinement`), so values containing
+ * colons or commas are preserved.
  *
  * @param navigationName - The name of the refinement category (e.g., "brands").
  * @param refinementValue - The specific refinement value (e.g., "BALMAIN").
@@ -17,20 +20,16 @@ export function handleRefinementChange(
   isChecked: boolean
 ): void {
   updateInputStore((currentParams: SearchParams): SearchParams => {
-    // Create a set for easy addition and removal of refinements.
-    const existingRefinements = new Set(currentParams.refinements);
-    const formattedRefinement = `${navigationName}:${refinementValue}`;
-
-    if (isChecked) {
-      existingRefinements.add(formattedRefinement);
-    } else {
-      existingRefinements.delete(formattedRefinement);
-    }
+    const formattedRefinement = encodeRefinement({ navigationName, value: refinementValue });
+    // Also drops the same refinement stored in a legacy (unescaped) form, e.g. parsed from an old URL.
+    const otherRefinements = currentParams.refinements.filter(
+      (refinement) => !isSameRefinement(refinement, formattedRefinement)
+    );
 
     // Reset page to 1 whenever refinements change.
     return {
       ...currentParams,
-      refinements: Array.from(existingRefinements),
+      refinements: isChecked ? [...otherRefinements, formattedRefinement] : otherRefinements,
       page: 1,
     };
   });
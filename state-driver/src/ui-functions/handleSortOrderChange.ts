@@ -1,5 +1,7 @@
 import type { SearchParams } from '../types';
 import { updateInputStore } from '../searchInputStore';
+import { getSortCatalog } from '../sortCatalog';
+import { debugLog } from '../debugLogger';
 
 /**
  * Updates the search parameters to reflect a change in sort order.
@@ -8,11 +10,19 @@ import { updateInputStore } from '../searchInputStore';
  * this function updates the Input Store by setting the `sort_by` field to the new value and resetting
  * the page number to 1 (ensuring that the search results start from the first page).
  *
+ * When a sort catalog was registered (`sortOptions` in `initSearchManager`), `newSortOrder` must be one of its
+ * option ids; unknown ids are ignored.
+ *
  * This function is framework-agnostic and leverages the Effector-based updateInputStore helper.
  *
- * @param newSortOrder - The new sort order to set (e.g., "price descending").
+ * @param newSortOrder - The new sort order to set (e.g., "price-desc", or a sort option id).
  */
 export function handleSortOrderChange(newSortOrder: string): void {
+  const sortCatalog = getSortCatalog();
+  if (sortCatalog && !sortCatalog.get(newSortOrder)) {
+    debugLog('Sort', `Ignoring unknown sort option "${newSortOrder}"`);
+    return;
+  }
   updateInputStore((current: SearchParams): SearchParams => ({
     ...current,
     sort_by: newSortOrder,
@@ -11,7 +11,8 @@ import {
   parseUrlToSearchParams,
   createPopstateHandler
 } from './utils/urlManagerUtils';
-import { DEFAULT_SORT_BY, SEARCH_PATH, DEFAULT_TYPE } from './constants/searchConstants';
+import { SEARCH_PATH, DEFAULT_TYPE } from './constants/searchConstants';
+import { getDefaultSortId, getSortCatalog } from './sortCatalog';
 
 interface InitUrlManagerParams {
   /**
@@ -70,6 +71,9 @@ export function initUrlManager({
   // Set our global debug flag
   sdkConfig.debug = debug;
   debugLog('URL Manager', 'Initializing URL Manager');
+  // Registered by the Search Manager, which must be initialized first.
+  const sortCatalog = getSortCatalog();
+  const defaultSortBy = getDefaultSortId();
 
   // Cache to track current state for popstate handler
   // We need this because Effector stores don't expose a public getState() method
@@ -80,7 +84,7 @@ export function initUrlManager({
       pagesize: defaultPagesize,
       refinements: [],
       page: 1,
-      sort_by: DEFAULT_SORT_BY,
+      sort_by: defaultSortBy,
       type: DEFAULT_TYPE,
       source,
       collectionId,
@@ -93,7 +97,7 @@ export function initUrlManager({
   const isHandlingPopstateRef = { value: false };
 
   // Parse URL parameters and update the Input Store.
-  const initialParams = parseUrlToSearchParams({ defaultPagesize, source });
+  const initialParams = parseUrlToSearchParams({ defaultPagesize, source, sortCatalog });
   const completeInitialParams: SearchParams = {
     ...initialParams,
     paginationType,
@@ -105,7 +109,7 @@ export function initUrlManager({
     initialParams.gbi_query.trim() !== '' ||
     initialParams.refinements.length > 0 ||
     initialParams.page > 1 ||
-    initialParams.sort_by !== DEFAULT_SORT_BY ||
+    initialParams.sort_by !== defaultSortBy ||
     initialParams.pagesize !== defaultPagesize;
 
   // Only update Input Store if there are URL parameters to parse
@@ -158,6 +162,7 @@ export function initUrlManager({
   const popstateHandler = createPopstateHandler({
     defaultPagesize,
     source,
+    sortCatalog,
     cachedSearchParamsRef,
     isHandlingPopstate: isHandlingPopstateRef,
     updateInputStore,
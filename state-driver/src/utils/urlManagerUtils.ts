@@ -2,6 +2,8 @@
  * URL Manager utility functions
  */
 
+import { parseRefinements, serializeRefinements } from '@rzlv/public-api-sdk';
+import type { SortCatalog } from '@rzlv/public-api-sdk';
 import { SearchSource } from '../types';
 import type { SearchParams } from '../types';
 import { COLLECTION_SOURCE_LOWERCASE, SEARCH_PATH, DEFAULT_SORT_BY, DEFAULT_TYPE } from '../constants/searchConstants';
@@ -110,6 +112,7 @@ export function getUrlPathForSource(source: SearchSource | string): string {
  * Serializes search parameters into URL query parameters.
  * 
  * Maps SearchParams object to URLSearchParams for use in the browser URL.
+ * Refinements are joined with `serializeRefinements`, which keeps escaped commas inside values.
  * Note: This does NOT include collectionId or paginationType as those are not
  * stored in the URL (they're internal state).
  *
@@ -122,7 +125,7 @@ export function serializeSearchParamsToUrl(
   const urlParams = new URLSearchParams();
   
   urlParams.set('type', params.type);
-  urlParams.set('refinement', params.refinements.join(','));
+  urlParams.set('refinement', serializeRefinements(params.refinements));
   urlParams.set('sort_by', params.sort_by);
   urlParams.set('page', params.page.toString());
   urlParams.set('gbi-query', params.gbi_query);
@@ -138,13 +141,15 @@ export function serializeSearchParamsToUrl(
  * 'refinement', and 'type', and maps them to the SearchParams structure.
  * 
  * Note: paginationType is not stored in the URL and must be provided separately.
+ * When a sort catalog is given, a `sort_by` value it does not know falls back to the catalog default.
  *
- * @param config - An object containing defaultPagesize and source.
+ * @param config - An object containing defaultPagesize, source and the optional sort catalog.
  * @returns The parsed search parameters (excluding paginationType which must be added by caller).
  */
 export function parseUrlToSearchParams(config: {
   defaultPagesize: string;
   source: SearchSource;
+  sortCatalog?: SortCatalog;
 }): Omit<SearchParams, 'paginationType'> {
   const urlParams = new URLSearchParams(window.location.search);
 
@@ -152,10 +157,12 @@ export function parseUrlToSearchParams(config: {
   // eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing
   const pagesize = urlParams.get('pagesize') || config.defaultPagesize;
   const page = urlParams.has('page') ? parseInt(urlParams.get('page') ?? '1', 10) : 1;
-  const sort_by = urlParams.get('sort_by') ?? DEFAULT_SORT_BY;
+  const sort_by = config.sortCatalog
+    ? config.sortCatalog.resolve(urlParams.get('sort_by')).id
+    : urlParams.get('sort_by') ?? DEFAULT_SORT_BY;
   const type = urlParams.get('type') ?? DEFAULT_TYPE;
   const refinementParam = urlParams.get('refinement');
-  const refinements = refinementParam ? refinementParam.split(',') : [];
+  const refinements = refinementParam ? parseRefinements(refinementParam) : [];
 
   return {
     gbi_query,
@@ -193,12 +200,13 @@ export function parseUrlToSearchParams(config: {
 export function createPopstateHandler(config: {
   defaultPagesize: string;
   source: SearchSource;
+  sortCatalog?: SortCatalog;
   cachedSearchParamsRef: { current: SearchParams };
   isHandlingPopstate: { value: boolean };
   updateInputStore: (updater: (current: SearchParams) => SearchParams) => void;
   debugLog: (context: string, ...args: unknown[]) => void;
 }): () => void {
-  const { defaultPagesize, source, cachedSearchParamsRef, isHandlingPopstate, updateInputStore, debugLog } = config;
+  const { defaultPagesize, source, sortCatalog, cachedSearchParamsRef, isHandlingPopstate, updateInputStore, debugLog } = config;
   
   return () => {
     debugLog('URL Manager', 'popstate event detected - browser back/forward navigation');
@@ -208,7 +216,7 @@ export function createPopstateHandler(config: {
     
     try {
       // Re-parse URL parameters to get the new state
-      const newParams = parseUrlToSearchParams({ defaultPagesize, source });
+      const newParams = parseUrlToSearchParams({ defaultPagesize, source, sortCatalog });
       
       debugLog('URL Manager', 'Parsed URL params from popstate:', newParams);
       debugLog('URL Manager', 'Current cached params:', cachedSearchParamsRef.current);